@@ -254,10 +254,7 @@ class ClaudeCodeTestAgent {
             });
 
             // Read package.json
-            const packageJsonContent = await sandbox.files.download(
-              '/workspace/repo/package.json'
-            );
-            const packageJson = JSON.parse(packageJsonContent.toString('utf-8'));
+            const packageJson = await sandbox.files.readJSON('/workspace/repo/package.json');
 
             // Update dependencies
             let updated = false;
@@ -282,10 +279,7 @@ class ClaudeCodeTestAgent {
             }
 
             // Write updated package.json
-            await sandbox.files.upload(
-              '/workspace/repo/package.json',
-              JSON.stringify(packageJson, null, 2)
-            );
+            await sandbox.files.writeJSON('/workspace/repo/package.json', packageJson);
 
             // Install updated dependencies
             const installResult = await sandbox.run('npm install', {
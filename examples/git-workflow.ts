@@ -1,7 +1,7 @@
 /**
  * Git Workflow Example
  *
- * Demonstrates git operations: clone, modify, commit, push
+ * Demonstrates git operations: clone, branch, modify, commit, push, open a PR
  */
 
 import { VibeBox } from '../src';
@@ -22,6 +22,9 @@ async function main() {
     console.log(`Branch: ${status.branch}`);
     console.log(`Modified: ${status.modified.length} files`);
 
+    console.log('\nCreating branch...');
+    await sandbox.git.checkout('docs/update-readme', { create: true });
+
     console.log('\nMaking changes...');
     await sandbox.files.upload(
       '/workspace/repo/README.md',
@@ -38,7 +41,19 @@ async function main() {
     });
 
     console.log('\nPushing changes...');
-    await sandbox.git.push();
+    await sandbox.git.push({ branch: 'docs/update-readme' });
+
+    if (process.env.GITHUB_TOKEN) {
+      console.log('\nOpening pull request...');
+      const pr = await sandbox.git.openPullRequest({
+        provider: 'github',
+        token: process.env.GITHUB_TOKEN,
+        base: 'main',
+        title: 'Update README via SDK',
+        body: 'Automated change made from a VibeBox sandbox.',
+      });
+      console.log(`Pull request #${pr.number}: ${pr.url}`);
+    }
 
     console.log('\nGit workflow complete!');
   });
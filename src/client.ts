@@ -4,10 +4,12 @@
  * Main entry point for interacting with VibeBox API
  */
 
-import type { VibeBoxConfig, CreateSandboxOptions } from './types';
+import type { VibeBoxConfig, CreateSandboxOptions, HttpMiddleware, WebSocketHandshakeHook } from './types';
 import { resolveConfig } from './config';
 import { HttpClient } from './utils/http-client';
-import { Sandbox, SandboxesResource, ApiKeysResource } from './resources';
+import { Sandbox, SandboxesResource, SnapshotsResource, ApiKeysResource } from './resources';
+import { SandboxPool } from './pool';
+import type { SandboxPoolOptions } from './pool';
 
 /**
  * VibeBox SDK Client
@@ -39,6 +41,7 @@ export class VibeBox {
 
   // Resource accessors
   public readonly sandboxes: SandboxesResource;
+  public readonly snapshots: SnapshotsResource;
   public readonly apiKeys: ApiKeysResource;
 
   /**
@@ -53,6 +56,7 @@ export class VibeBox {
 
     // Initialize resources
     this.sandboxes = new SandboxesResource(this.httpClient, this.config);
+    this.snapshots = new SnapshotsResource(this.httpClient);
     this.apiKeys = new ApiKeysResource(this.httpClient);
   }
 
@@ -92,6 +96,9 @@ export class VibeBox {
    *     branch: 'main'
    *   }
    * });
+   *
+   * // Restore from a snapshot
+   * const sandbox = await vb.create({ fromSnapshot: 'snap-id-123' });
    * ```
    */
   async create(options: CreateSandboxOptions): Promise<Sandbox> {
@@ -150,6 +157,93 @@ export class VibeBox {
     }
   }
 
+  /**
+   * Create a pool of warm sandboxes
+   *
+   * The pool starts `min` sandboxes immediately and leases them out via
+   * `acquire()`/`release()` or `use()`. Released sandboxes are reset and
+   * reused instead of destroyed.
+   *
+   * @param options - Pool options
+   * @returns Sandbox pool
+   *
+   * @example
+   * ```typescript
+   * const pool = vb.pool({ template: 'python-3.11', min: 4, max: 20, idleTimeout: 600000 });
+   *
+   * const result = await pool.use(async (sandbox) => {
+   *   return sandbox.run('print("hello")', { language: 'python' });
+   * });
+   *
+   * // On shutdown
+   * await pool.drain();
+   * ```
+   */
+  pool(options: SandboxPoolOptions): SandboxPool {
+    return new SandboxPool(this.sandboxes, options);
+  }
+
+  /**
+   * Add HTTP middleware
+   *
+   * Middleware wraps every HTTP API request made by this client and its
+   * resources, and runs again on each retry. It can modify the request,
+   * inspect the response, or return its own `Response` to short-circuit.
+   *
+   * WebSocket connections (logs, terminal, streamed execution, file
+   * watching, process output) have no HTTP response to wrap and are not
+   * passed through middleware; register a `useWebSocket()` hook for them.
+   *
+   * @param middleware - Middleware function
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * vb.use(async (req, next) => {
+   *   req.headers['X-Tenant-Id'] = tenantId;
+   *   return next(req);
+   * });
+   *
+   * vb.use(async (req, next) => {
+   *   const start = Date.now();
+   *   const res = await next(req);
+   *   audit.log(`${req.method} ${req.url} ${res.status} ${Date.now() - start}ms (attempt ${req.attempt})`);
+   *   return res;
+   * });
+   * ```
+   */
+  use(middleware: HttpMiddleware): this {
+    this.httpClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Add a WebSocket handshake hook
+   *
+   * Runs before every WebSocket connection is opened and can modify its
+   * URL and handshake headers.
+   *
+   * @param hook - Hook function
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * const addTenant = (headers: Record<string, string>) => {
+   *   headers['X-Tenant-Id'] = tenantId;
+   * };
+   *
+   * vb.use(async (req, next) => {
+   *   addTenant(req.headers);
+   *   return next(req);
+   * });
+   * vb.useWebSocket((handshake) => addTenant(handshake.headers));
+   * ```
+   */
+  useWebSocket(hook: WebSocketHandshakeHook): this {
+    this.httpClient.useWebSocket(hook);
+    return this;
+  }
+
   /**
    * Get current configuration
    *
@@ -3,7 +3,6 @@
  */
 
 import type { VibeBoxConfig } from './types';
-import { required } from './utils/validation';
 
 /**
  * Default configuration values
@@ -13,6 +12,10 @@ const DEFAULT_CONFIG: Required<Omit<VibeBoxConfig, 'apiKey' | 'defaultProjectId'
   timeout: 30000,
   retries: 3,
   retryDelay: 1000,
+  retryBackoff: 'exponential',
+  maxRetryDelay: 30000,
+  maxRetryTime: 0,
+  onRetry: () => {},
   headers: {},
 };
 
@@ -55,6 +58,10 @@ export function resolveConfig(config?: VibeBoxConfig): Required<VibeBoxConfig> {
     timeout: config?.timeout ?? DEFAULT_CONFIG.timeout,
     retries: config?.retries ?? DEFAULT_CONFIG.retries,
     retryDelay: config?.retryDelay ?? DEFAULT_CONFIG.retryDelay,
+    retryBackoff: config?.retryBackoff ?? DEFAULT_CONFIG.retryBackoff,
+    maxRetryDelay: config?.maxRetryDelay ?? DEFAULT_CONFIG.maxRetryDelay,
+    maxRetryTime: config?.maxRetryTime ?? DEFAULT_CONFIG.maxRetryTime,
+    onRetry: config?.onRetry ?? DEFAULT_CONFIG.onRetry,
     headers: {
       ...DEFAULT_CONFIG.headers,
       ...config?.headers,
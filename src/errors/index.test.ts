@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError, RateLimitError, createApiError, isRetryableError, parseRetryAfter } from './index';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-10-21T07:28:00Z');
+
+  it('parses delay-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000);
+  });
+
+  it('clamps dates in the past to zero', () => {
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter('-5')).toBeUndefined();
+  });
+});
+
+describe('createApiError', () => {
+  it('attaches retryAfter to rate limit errors', () => {
+    const error = createApiError(429, 'slow down', undefined, 2000);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(2000);
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it('attaches retryAfter to server errors', () => {
+    const error = createApiError(503, 'unavailable', undefined, 1000);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.statusCode).toBe(503);
+    expect(error.retryAfter).toBe(1000);
+    expect(isRetryableError(error)).toBe(true);
+  });
+});
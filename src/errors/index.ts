@@ -4,7 +4,7 @@
  * Custom error classes for handling various error scenarios.
  */
 
-import type { ApiErrorResponse } from '../types';
+import type { ApiErrorResponse, EnvironmentStatus } from '../types';
 
 /**
  * Base error class for all VibeBox SDK errors
@@ -26,12 +26,15 @@ export class VibeBoxError extends Error {
 export class ApiError extends VibeBoxError {
   public readonly statusCode: number;
   public readonly response?: ApiErrorResponse;
+  /** Time to wait before retrying in milliseconds, from the Retry-After header */
+  public readonly retryAfter?: number;
 
-  constructor(message: string, statusCode: number, response?: ApiErrorResponse) {
+  constructor(message: string, statusCode: number, response?: ApiErrorResponse, retryAfter?: number) {
     super(message);
     this.name = 'ApiError';
     this.statusCode = statusCode;
     this.response = response;
+    this.retryAfter = retryAfter;
   }
 
   /**
@@ -82,6 +85,37 @@ export class ValidationError extends VibeBoxError {
   }
 }
 
+/**
+ * Error thrown when a sandbox enters a state it cannot recover from
+ * (e.g. `error` or `destroyed`) while waiting for it
+ */
+export class SandboxStateError extends VibeBoxError {
+  public readonly sandboxId: string;
+  public readonly status: EnvironmentStatus;
+
+  constructor(message: string, sandboxId: string, status: EnvironmentStatus) {
+    super(message);
+    this.name = 'SandboxStateError';
+    this.sandboxId = sandboxId;
+    this.status = status;
+  }
+}
+
+/**
+ * Error thrown when transferred content does not match its expected checksum
+ */
+export class ChecksumMismatchError extends VibeBoxError {
+  public readonly expected: string;
+  public readonly actual: string;
+
+  constructor(message: string, expected: string, actual: string) {
+    super(message);
+    this.name = 'ChecksumMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
 /**
  * Error thrown when authentication fails
  */
@@ -126,19 +160,60 @@ export class ConflictError extends ApiError {
  * Error thrown when rate limit is exceeded
  */
 export class RateLimitError extends ApiError {
-  public readonly retryAfter?: number;
-
   constructor(message: string = 'Rate limit exceeded', retryAfter?: number, response?: ApiErrorResponse) {
-    super(message, 429, response);
+    super(message, 429, response, retryAfter);
     this.name = 'RateLimitError';
-    this.retryAfter = retryAfter;
   }
 }
 
+/**
+ * Parse a Retry-After header value
+ *
+ * Accepts both forms allowed by RFC 9110: a number of seconds or an
+ * HTTP date.
+ *
+ * @param value - Header value
+ * @param now - Current time in milliseconds (for HTTP dates)
+ * @returns Delay in milliseconds, or undefined if missing or invalid
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter('120'); // 120000
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT'); // ms until that date
+ * ```
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  // HTTP dates always contain a day/month name; Date.parse would accept "-5" as a year
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
 /**
  * Helper function to create appropriate error from API response
+ *
+ * @param statusCode - HTTP status code
+ * @param message - Error message
+ * @param response - Parsed error body
+ * @param retryAfter - Server-requested retry delay in milliseconds (see `parseRetryAfter()`)
  */
-export function createApiError(statusCode: number, message: string, response?: ApiErrorResponse): ApiError {
+export function createApiError(
+  statusCode: number,
+  message: string,
+  response?: ApiErrorResponse,
+  retryAfter?: number
+): ApiError {
   switch (statusCode) {
     case 401:
       return new AuthenticationError(message, response);
@@ -149,9 +224,10 @@ export function createApiError(statusCode: number, message: string, response?: A
     case 409:
       return new ConflictError(message, response);
     case 429:
-      return new RateLimitError(message, undefined, response);
+      return new RateLimitError(message, retryAfter, response);
     default:
-      return new ApiError(message, statusCode, response);
+      // Retry-After also accompanies 503 and other retryable server errors
+      return new ApiError(message, statusCode, response, retryAfter);
   }
 }
 
@@ -9,23 +9,50 @@
 // Main client
 export { VibeBox } from './client';
 
+// Sandbox pool
+export { SandboxPool } from './pool';
+export type { SandboxPoolOptions } from './pool';
+
 // Resources
 export {
   Sandbox,
   SandboxesResource,
   GitResource,
+  GitConfigResource,
   FilesResource,
   ExecutionResource,
+  ExecutionStream,
   EnvironmentVariablesResource,
+  LogsResource,
+  TerminalResource,
+  TerminalSession,
+  ProcessesResource,
+  SnapshotsResource,
   ApiKeysResource,
 } from './resources';
 
 // Types
 export type {
   VibeBoxConfig,
+  HttpRequest,
+  HttpNext,
+  HttpMiddleware,
+  WebSocketHandshake,
+  WebSocketHandshakeHook,
+  BackoffStrategy,
+  RetryInfo,
   Environment,
   EnvironmentStatus,
   CreateSandboxOptions,
+  ListSandboxesOptions,
+  PaginatedResponse,
+  ForkSandboxOptions,
+  ResetSandboxOptions,
+  WaitOptions,
+  Snapshot,
+  SnapshotStatus,
+  CreateSnapshotOptions,
+  ListSnapshotsOptions,
   GitCloneOptions,
   GitCloneResult,
   GitPullOptions,
@@ -38,21 +65,102 @@ export type {
   GitStatus,
   GitDiff,
   GitDiffFile,
+  GitDiffStatus,
+  GitDiffOptions,
+  GitDiffStatOptions,
+  GitDiffStatFile,
+  GitDiffStat,
+  GitBranch,
+  GitBranchesOptions,
+  GitDeleteBranchOptions,
+  GitSignature,
+  GitCommit,
+  GitLogOptions,
+  GitCommitDetails,
+  GitTag,
+  GitTagOptions,
+  GitOperationResult,
+  GitMergeOptions,
+  GitMergeResult,
+  GitConflict,
+  GitRestoreOptions,
+  GitResetMode,
+  GitResetOptions,
+  GitStashOptions,
+  GitStashEntry,
+  GitCleanOptions,
+  GitCleanResult,
+  GitRemote,
+  GitCredentials,
+  GitConfigScope,
+  GitConfigOptions,
+  PullRequestProviderName,
+  PullRequestRepository,
+  CreatePullRequestParams,
+  PullRequestState,
+  PullRequest,
+  PullRequestProvider,
+  PullRequestProviderOptions,
+  OpenPullRequestOptions,
   GitAuthConfig,
   GitAuthType,
   ExecutionOptions,
+  ExecutionStreamOptions,
+  ExecutionOutputChunk,
   ExecutionResult,
   Execution,
   ExecutionStatus,
   ProgrammingLanguage,
+  Process,
+  ProcessSignal,
+  StartProcessOptions,
+  WaitProcessOptions,
+  ProcessLogs,
+  ProcessLogsOptions,
+  TerminalOptions,
+  TerminalExitEvent,
   FileInfo,
+  FileStat,
+  FileTreeNode,
+  FileTreeOptions,
+  ChmodOptions,
+  ChownOptions,
   ListFilesResponse,
   UploadResult,
+  UploadSession,
+  UploadStreamOptions,
+  StreamUploadResult,
+  DownloadStreamOptions,
+  TransferProgress,
+  FileChecksum,
+  FileManifest,
+  RemoteFileEntry,
+  SyncOptions,
+  SyncResult,
+  SyncCompareMode,
+  ArchiveFormat,
+  ExportArchiveOptions,
+  ImportArchiveOptions,
+  ImportArchiveResult,
+  FileWatchEvent,
+  FileWatchEventType,
+  FileWatchOptions,
+  FileWatchSubscription,
+  WriteJSONOptions,
+  PatchResult,
+  FailedHunk,
+  DiffLineType,
+  DiffLine,
+  DiffHunk,
+  DiffFilePatch,
   DeleteFileOptions,
   MakeDirOptions,
   CopyFileRequest,
   MoveFileRequest,
   SearchFilesResponse,
+  GrepOptions,
+  GrepMatch,
+  GrepResult,
   ApiKey,
   ApiKeyScope,
   CreateApiKeyRequest,
@@ -62,26 +170,38 @@ export type {
   LogLevel,
   LogSubscription,
   LogSubscriptionOptions,
+  WebSocketConnectOptions,
   EnvironmentVariable,
 } from './types';
 
+// Pull request providers
+export { GitHubProvider, GitLabProvider, createPullRequestProvider } from './pull-requests';
+
 // Errors
 export {
   VibeBoxError,
   ApiError,
   TimeoutError,
   ValidationError,
+  SandboxStateError,
+  ChecksumMismatchError,
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
   ConflictError,
   RateLimitError,
   createApiError,
+  parseRetryAfter,
   isRetryableError,
 } from './errors';
 
 // Utilities
 export { parseDuration, formatDuration } from './utils/duration-parser';
+export { createIgnoreMatcher } from './utils/ignore';
+export { parseUnifiedDiff, applyHunks } from './utils/diff';
+export { parseGitRemoteUrl } from './utils/git-remote';
+export type { ApplyHunksResult } from './utils/diff';
+export type { IgnoreMatcher } from './utils/ignore';
 export { slugify, generateSandboxName, isValidUrl, isValidApiKey } from './utils/validation';
 
 // Default export
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SandboxPool } from './pool';
+import type { Sandbox, SandboxesResource } from './resources';
+
+function fakeSandbox(id: string) {
+  return {
+    id,
+    reset: vi.fn().mockResolvedValue(undefined),
+    destroy: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+type FakeSandbox = ReturnType<typeof fakeSandbox>;
+
+function fakeSandboxes(create?: () => Promise<FakeSandbox>) {
+  let count = 0;
+  const resource = {
+    create: vi.fn(create ?? (async () => fakeSandbox(`sb-${++count}`))),
+  };
+  return resource as typeof resource & SandboxesResource;
+}
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('SandboxPool', () => {
+  it('waits for a release when the pool is at max', async () => {
+    const pool = new SandboxPool(fakeSandboxes(), { template: 'node-20', max: 1 });
+    const first = await pool.acquire();
+
+    let second: Sandbox | undefined;
+    const waiting = pool.acquire().then((sandbox) => (second = sandbox));
+    await flush();
+    expect(second).toBeUndefined();
+
+    await pool.release(first);
+    await waiting;
+
+    expect(second).toBe(first);
+    expect(pool.size).toBe(1);
+  });
+
+  it('serves queued waiters after a create fails', async () => {
+    const sandboxes = fakeSandboxes();
+    sandboxes.create.mockRejectedValueOnce(new Error('quota exceeded'));
+    const pool = new SandboxPool(sandboxes, { template: 'node-20', max: 1 });
+
+    const failed = pool.acquire();
+    const queued = pool.acquire();
+
+    await expect(failed).rejects.toThrow('quota exceeded');
+    await expect(queued).resolves.toMatchObject({ id: 'sb-1' });
+    expect(pool.size).toBe(1);
+  });
+
+  it('destroys sandboxes whose reset fails instead of reusing them', async () => {
+    const onError = vi.fn();
+    const pool = new SandboxPool(fakeSandboxes(), { template: 'node-20', max: 1, onError });
+    const sandbox = (await pool.acquire()) as unknown as FakeSandbox;
+    sandbox.reset.mockRejectedValueOnce(new Error('reset failed'));
+
+    await pool.release(sandbox as unknown as Sandbox);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'reset failed' }));
+    expect(sandbox.destroy).toHaveBeenCalled();
+    expect(pool.available).toBe(0);
+    await expect(pool.acquire()).resolves.not.toBe(sandbox);
+  });
+
+  it('destroys a sandbox released while the pool drains', async () => {
+    const pool = new SandboxPool(fakeSandboxes(), { template: 'node-20' });
+    const sandbox = (await pool.acquire()) as unknown as FakeSandbox;
+    const reset = deferred();
+    sandbox.reset.mockReturnValueOnce(reset.promise);
+
+    const released = pool.release(sandbox as unknown as Sandbox);
+    const drained = pool.drain();
+    reset.resolve();
+    await Promise.all([released, drained]);
+
+    expect(sandbox.destroy).toHaveBeenCalled();
+    expect(pool.available).toBe(0);
+    expect(pool.size).toBe(0);
+  });
+
+  it('rejects acquire() once draining', async () => {
+    const pool = new SandboxPool(fakeSandboxes(), { template: 'node-20' });
+    await pool.drain();
+
+    await expect(pool.acquire()).rejects.toThrow('draining');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Warm sandbox pool
+ *
+ * Keeps pre-started sandboxes ready so short jobs don't pay boot latency.
+ */
+
+import type { CreateSandboxOptions } from './types';
+import type { Sandbox, SandboxesResource } from './resources';
+import { TimeoutError, VibeBoxError } from './errors';
+
+/**
+ * Sandbox pool options
+ */
+export interface SandboxPoolOptions {
+  /** Template name or base image for pooled sandboxes */
+  template: string;
+
+  /** Number of sandboxes kept warm at all times (default: 0) */
+  min?: number;
+
+  /** Maximum number of sandboxes, leased and idle combined (default: 10) */
+  max?: number;
+
+  /** Destroy idle sandboxes above `min` after this many milliseconds (default: 300000, 0 disables) */
+  idleTimeout?: number;
+
+  /** Maximum time `acquire()` waits for a free sandbox in milliseconds (default: no limit) */
+  acquireTimeout?: number;
+
+  /**
+   * Reset applied when a sandbox is released (default: true)
+   *
+   * `true` calls `sandbox.reset()`, `false` returns sandboxes as-is, and a
+   * function performs a custom reset. Sandboxes whose reset fails are
+   * destroyed instead of being reused.
+   */
+  reset?: boolean | ((sandbox: Sandbox) => Promise<void>);
+
+  /** Additional creation options for pooled sandboxes */
+  createOptions?: Omit<CreateSandboxOptions, 'template' | 'autoStart'>;
+
+  /** Called when a background operation (warm-up, reset, cleanup) fails */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Idle sandbox with its eviction timer
+ */
+interface IdleEntry {
+  sandbox: Sandbox;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Pending acquire() call
+ */
+interface Waiter {
+  resolve: (sandbox: Sandbox) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Pool of warm sandboxes with lease/release semantics
+ *
+ * @example
+ * ```typescript
+ * const pool = vb.pool({ template: 'node-20', min: 2, max: 10 });
+ *
+ * const result = await pool.use(async (sandbox) => {
+ *   return sandbox.run('npm test', { language: 'bash' });
+ * });
+ *
+ * // On shutdown
+ * await pool.drain();
+ * ```
+ */
+export class SandboxPool {
+  private readonly min: number;
+  private readonly max: number;
+  private readonly idleTimeout: number;
+  private readonly idle: IdleEntry[] = [];
+  private readonly leased = new Set<Sandbox>();
+  private readonly waiters: Waiter[] = [];
+  private readonly creating = new Set<Promise<Sandbox>>();
+  private readonly destroying = new Set<Promise<void>>();
+  private readonly releasing = new Set<Promise<void>>();
+  private pending = 0;
+  private draining = false;
+
+  constructor(
+    private readonly sandboxes: SandboxesResource,
+    private readonly options: SandboxPoolOptions
+  ) {
+    this.min = options.min ?? 0;
+    this.max = options.max ?? 10;
+    this.idleTimeout = options.idleTimeout ?? 300000;
+
+    if (this.min > this.max) {
+      throw new VibeBoxError(`Pool min (${this.min}) cannot exceed max (${this.max})`);
+    }
+
+    this.replenish();
+  }
+
+  /**
+   * Total number of sandboxes (idle, leased and starting)
+   */
+  get size(): number {
+    return this.idle.length + this.leased.size + this.pending;
+  }
+
+  /**
+   * Number of idle sandboxes ready to be leased
+   */
+  get available(): number {
+    return this.idle.length;
+  }
+
+  /**
+   * Lease a sandbox from the pool
+   *
+   * Returns an idle sandbox if one is available, starts a new one if the
+   * pool is below `max`, and otherwise waits for a release.
+   *
+   * @returns Leased sandbox
+   * @throws VibeBoxError if the pool is draining
+   * @throws TimeoutError if no sandbox becomes available within `acquireTimeout`
+   */
+  async acquire(): Promise<Sandbox> {
+    if (this.draining) {
+      throw new VibeBoxError('Sandbox pool is draining');
+    }
+
+    const entry = this.idle.pop();
+    if (entry) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      this.leased.add(entry.sandbox);
+      return entry.sandbox;
+    }
+
+    if (this.size < this.max) {
+      let sandbox: Sandbox;
+      try {
+        sandbox = await this.createSandbox();
+      } catch (error) {
+        // The failed create freed a slot that queued callers may be waiting on
+        this.fillWaiters();
+        throw error;
+      }
+      this.leased.add(sandbox);
+      return sandbox;
+    }
+
+    return this.waitForSandbox();
+  }
+
+  /**
+   * Return a leased sandbox to the pool
+   *
+   * The sandbox is reset before it is handed out again. If the reset fails
+   * (or the pool is draining) the sandbox is destroyed.
+   *
+   * @param sandbox - Sandbox obtained from `acquire()`
+   */
+  async release(sandbox: Sandbox): Promise<void> {
+    if (!this.leased.has(sandbox)) {
+      return;
+    }
+
+    // Tracked so drain() can wait for resets that are still in progress
+    const promise = this.returnSandbox(sandbox).finally(() => this.releasing.delete(promise));
+    this.releasing.add(promise);
+    return promise;
+  }
+
+  /**
+   * Lease a sandbox for the duration of a function
+   *
+   * Mirrors `vb.withSandbox()`, but releases the sandbox back to the pool
+   * instead of destroying it.
+   *
+   * @param fn - Function to execute with the sandbox
+   * @returns Result of the function
+   *
+   * @example
+   * ```typescript
+   * const output = await pool.use(async (sandbox) => {
+   *   await sandbox.files.upload('/workspace/main.py', code);
+   *   return sandbox.run('python main.py', { language: 'bash' });
+   * });
+   * ```
+   */
+  async use<T>(fn: (sandbox: Sandbox) => Promise<T>): Promise<T> {
+    const sandbox = await this.acquire();
+    try {
+      return await fn(sandbox);
+    } finally {
+      await this.release(sandbox);
+    }
+  }
+
+  /**
+   * Shut the pool down
+   *
+   * Rejects pending `acquire()` calls and destroys idle sandboxes, as well
+   * as sandboxes that were still starting or being reset. Leased sandboxes
+   * are destroyed when they are released.
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new VibeBoxError('Sandbox pool is draining'));
+    }
+
+    const entries = this.idle.splice(0);
+    await Promise.all(
+      entries.map((entry) => {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+        }
+        return this.destroySandbox(entry.sandbox);
+      })
+    );
+
+    // Sandboxes still booting or resetting are destroyed once they finish
+    await Promise.allSettled([...this.creating, ...this.releasing]);
+    await Promise.all([...this.destroying]);
+  }
+
+  /**
+   * Reset a released sandbox and hand it to a waiter or the idle list
+   */
+  private async returnSandbox(sandbox: Sandbox): Promise<void> {
+    if (this.draining) {
+      this.leased.delete(sandbox);
+      await this.destroySandbox(sandbox);
+      return;
+    }
+
+    try {
+      await this.resetSandbox(sandbox);
+    } catch (error) {
+      this.options.onError?.(error);
+      this.leased.delete(sandbox);
+      await this.destroySandbox(sandbox);
+      this.fillWaiters();
+      this.replenish();
+      return;
+    }
+
+    // drain() may have started while the reset was running
+    if (this.draining) {
+      this.leased.delete(sandbox);
+      await this.destroySandbox(sandbox);
+      return;
+    }
+
+    // Hand over directly to a waiting acquire() if there is one
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(sandbox);
+      return;
+    }
+
+    this.leased.delete(sandbox);
+    this.addIdle(sandbox);
+  }
+
+  /**
+   * Create a new pooled sandbox, counting it as pending while it boots
+   */
+  private createSandbox(): Promise<Sandbox> {
+    this.pending++;
+    const promise = this.sandboxes
+      .create({
+        ...this.options.createOptions,
+        template: this.options.template,
+        autoStart: true,
+      })
+      .finally(() => {
+        this.pending--;
+        this.creating.delete(promise);
+      });
+    this.creating.add(promise);
+    return promise;
+  }
+
+  /**
+   * Wait for a sandbox to be released
+   */
+  private waitForSandbox(): Promise<Sandbox> {
+    return new Promise<Sandbox>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+
+      if (this.options.acquireTimeout) {
+        const timeout = this.options.acquireTimeout;
+        const timer = setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) {
+            this.waiters.splice(index, 1);
+            reject(new TimeoutError(`No sandbox available within ${timeout}ms`, timeout));
+          }
+        }, timeout);
+
+        waiter.resolve = (sandbox) => {
+          clearTimeout(timer);
+          resolve(sandbox);
+        };
+        waiter.reject = (error) => {
+          clearTimeout(timer);
+          reject(error);
+        };
+      }
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Start sandboxes for waiters when capacity frees up
+   *
+   * A waiter whose create fails is rejected with the error, and the freed
+   * slot is offered to the next waiter.
+   */
+  private fillWaiters(): void {
+    while (!this.draining && this.waiters.length > 0 && this.size < this.max) {
+      const waiter = this.waiters.shift() as Waiter;
+      this.createSandbox().then(
+        (sandbox) => {
+          if (this.draining) {
+            this.destroySandbox(sandbox);
+            return;
+          }
+          this.leased.add(sandbox);
+          waiter.resolve(sandbox);
+        },
+        (error) => {
+          waiter.reject(error);
+          this.fillWaiters();
+        }
+      );
+    }
+  }
+
+  /**
+   * Start sandboxes in the background until the pool holds `min`
+   */
+  private replenish(): void {
+    while (!this.draining && this.size < this.min) {
+      this.createSandbox().then(
+        (sandbox) => {
+          if (this.draining) {
+            this.destroySandbox(sandbox);
+            return;
+          }
+          const waiter = this.waiters.shift();
+          if (waiter) {
+            this.leased.add(sandbox);
+            waiter.resolve(sandbox);
+          } else {
+            this.addIdle(sandbox);
+          }
+        },
+        (error) => {
+          this.options.onError?.(error);
+          // Waiters queued behind this create would otherwise never be served
+          this.fillWaiters();
+        }
+      );
+    }
+  }
+
+  /**
+   * Put a sandbox in the idle list and schedule its eviction
+   */
+  private addIdle(sandbox: Sandbox): void {
+    const entry: IdleEntry = { sandbox, timer: null };
+
+    if (this.idleTimeout > 0) {
+      entry.timer = setTimeout(() => {
+        const index = this.idle.indexOf(entry);
+        if (index === -1 || this.size <= this.min) {
+          return;
+        }
+        this.idle.splice(index, 1);
+        this.destroySandbox(sandbox);
+      }, this.idleTimeout);
+      // Idle eviction alone should not keep the process alive
+      entry.timer.unref();
+    }
+
+    this.idle.push(entry);
+  }
+
+  /**
+   * Apply the configured reset to a released sandbox
+   */
+  private async resetSandbox(sandbox: Sandbox): Promise<void> {
+    const reset = this.options.reset ?? true;
+    if (reset === true) {
+      await sandbox.reset();
+    } else if (typeof reset === 'function') {
+      await reset(sandbox);
+    }
+  }
+
+  /**
+   * Destroy a sandbox, reporting failures to `onError`
+   */
+  private destroySandbox(sandbox: Sandbox): Promise<void> {
+    const promise: Promise<void> = sandbox
+      .destroy()
+      .catch((error) => this.options.onError?.(error))
+      .finally(() => this.destroying.delete(promise));
+    this.destroying.add(promise);
+    return promise;
+  }
+}
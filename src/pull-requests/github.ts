@@ -0,0 +1,91 @@
+/**
+ * GitHub pull request provider
+ */
+
+import type {
+  CreatePullRequestParams,
+  PullRequest,
+  PullRequestProvider,
+  PullRequestProviderOptions,
+} from '../types';
+import { sendProviderRequest } from './request';
+
+/**
+ * Pull request as returned by the GitHub REST API
+ */
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged_at: string | null;
+  title: string;
+  base: { ref: string };
+  head: { ref: string };
+}
+
+/**
+ * GitHub REST API adapter
+ *
+ * @example
+ * ```typescript
+ * const github = new GitHubProvider({
+ *   token: process.env.GITHUB_TOKEN!,
+ *   // Optional: defaults to api.github.com, or /api/v3 on GitHub Enterprise hosts
+ *   baseUrl: 'http://localhost:4010',
+ * });
+ *
+ * await sandbox.git.openPullRequest({ provider: github, base: 'main', title: 'Fix typo' });
+ * ```
+ */
+export class GitHubProvider implements PullRequestProvider {
+  readonly name = 'github';
+
+  constructor(private readonly options: PullRequestProviderOptions) {}
+
+  async createPullRequest(params: CreatePullRequestParams): Promise<PullRequest> {
+    const { host, owner, repo } = params.repository;
+
+    const data = await sendProviderRequest<GitHubPullRequest>(
+      'GitHub',
+      `${this.apiUrl(host)}/repos/${owner}/${repo}/pulls`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.options.token}`,
+          'Accept': 'application/vnd.github+json',
+          'Content-Type': 'application/json',
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+        body: JSON.stringify({
+          title: params.title,
+          body: params.body,
+          head: params.head,
+          base: params.base,
+          draft: params.draft || false,
+        }),
+      }
+    );
+
+    return {
+      provider: this.name,
+      number: data.number,
+      url: data.html_url,
+      state: data.merged_at ? 'merged' : data.state,
+      title: data.title,
+      base: data.base.ref,
+      head: data.head.ref,
+    };
+  }
+
+  /**
+   * API base URL: the configured one, or derived from the repository host
+   * so tokens are only sent to the server hosting the repository
+   */
+  private apiUrl(host: string): string {
+    if (this.options.baseUrl) {
+      return this.options.baseUrl.replace(/\/+$/, '');
+    }
+    // GitHub Enterprise Server serves the REST API under /api/v3
+    return host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * GitLab merge request provider
+ */
+
+import type {
+  CreatePullRequestParams,
+  PullRequest,
+  PullRequestProvider,
+  PullRequestProviderOptions,
+  PullRequestState,
+} from '../types';
+import { sendProviderRequest } from './request';
+
+/**
+ * Merge request as returned by the GitLab REST API
+ */
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  title: string;
+  source_branch: string;
+  target_branch: string;
+}
+
+/**
+ * GitLab REST API adapter
+ *
+ * @example
+ * ```typescript
+ * const gitlab = new GitLabProvider({
+ *   token: process.env.GITLAB_TOKEN!,
+ *   // Optional: defaults to https://<repository host>/api/v4
+ *   baseUrl: 'http://localhost:4010/api/v4',
+ * });
+ *
+ * await sandbox.git.openPullRequest({ provider: gitlab, base: 'main', title: 'Fix typo' });
+ * ```
+ */
+export class GitLabProvider implements PullRequestProvider {
+  readonly name = 'gitlab';
+
+  constructor(private readonly options: PullRequestProviderOptions) {}
+
+  async createPullRequest(params: CreatePullRequestParams): Promise<PullRequest> {
+    const { host, owner, repo } = params.repository;
+    const project = encodeURIComponent(`${owner}/${repo}`);
+
+    const data = await sendProviderRequest<GitLabMergeRequest>(
+      'GitLab',
+      `${this.apiUrl(host)}/projects/${project}/merge_requests`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.options.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          // GitLab marks drafts by title prefix
+          title: params.draft ? `Draft: ${params.title}` : params.title,
+          description: params.body,
+          source_branch: params.head,
+          target_branch: params.base,
+        }),
+      }
+    );
+
+    const states: Record<GitLabMergeRequest['state'], PullRequestState> = {
+      opened: 'open',
+      closed: 'closed',
+      locked: 'closed',
+      merged: 'merged',
+    };
+
+    return {
+      provider: this.name,
+      number: data.iid,
+      url: data.web_url,
+      state: states[data.state],
+      title: data.title,
+      base: data.target_branch,
+      head: data.source_branch,
+    };
+  }
+
+  /**
+   * API base URL, defaulting to the repository's own GitLab server
+   */
+  private apiUrl(host: string): string {
+    if (this.options.baseUrl) {
+      return this.options.baseUrl.replace(/\/+$/, '');
+    }
+    return `https://${host}/api/v4`;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Pull request providers
+ */
+
+import type {
+  PullRequestProvider,
+  PullRequestProviderName,
+  PullRequestProviderOptions,
+} from '../types';
+import { ValidationError } from '../errors';
+import { GitHubProvider } from './github';
+import { GitLabProvider } from './gitlab';
+
+export { GitHubProvider } from './github';
+export { GitLabProvider } from './gitlab';
+
+/**
+ * Create a built-in pull request provider by name
+ *
+ * @param name - Provider name
+ * @param options - Provider options
+ * @returns Provider instance
+ * @throws ValidationError if the provider is unknown
+ */
+export function createPullRequestProvider(
+  name: PullRequestProviderName,
+  options: PullRequestProviderOptions
+): PullRequestProvider {
+  switch (name) {
+    case 'github':
+      return new GitHubProvider(options);
+    case 'gitlab':
+      return new GitLabProvider(options);
+    default:
+      throw new ValidationError(`Unknown pull request provider: ${name}`, {
+        provider: 'must be one of: github, gitlab',
+      });
+  }
+}
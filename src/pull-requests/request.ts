@@ -0,0 +1,42 @@
+/**
+ * Shared HTTP helper for hosting provider APIs
+ */
+
+import { createApiError, VibeBoxError } from '../errors';
+
+/**
+ * Send a JSON request to a provider API
+ *
+ * Non-2xx responses are converted with `createApiError()` so callers can
+ * handle provider failures like any other API error.
+ *
+ * @param provider - Provider name, used in error messages
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @returns Parsed response body
+ */
+export async function sendProviderRequest<T>(provider: string, url: string, init: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new VibeBoxError(`${provider} request failed: ${(error as Error).message}`);
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const detail = data && typeof data === 'object' && 'message' in data
+      ? String(data.message)
+      : `HTTP ${response.status}: ${response.statusText}`;
+
+    throw createApiError(response.status, `${provider}: ${detail}`, {
+      error: 'provider_error',
+      message: detail,
+      details: data && typeof data === 'object' ? data : undefined,
+      statusCode: response.status,
+    });
+  }
+
+  return data as T;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExecutionStream } from './execution';
+import type { WebSocketClient, WebSocketHandlers } from '../utils/websocket';
+import type { ExecutionOutputChunk, ExecutionResult, ExecutionStreamMessage, ExecutionStreamOptions } from '../types';
+
+const result: ExecutionResult = {
+  executionId: 'exec-1',
+  stdout: 'a\nb\n',
+  stderr: '',
+  exitCode: 0,
+  duration: 12,
+  status: 'completed',
+};
+
+/**
+ * Stub WebSocketClient that lets the test play the server side
+ */
+function fakeStream(options?: ExecutionStreamOptions) {
+  let handlers!: WebSocketHandlers<ExecutionStreamMessage>;
+  const connection = {
+    send: vi.fn(),
+    close: vi.fn(() => handlers.onClose?.(1000, '')),
+  };
+  const ws = {
+    connect: vi.fn((_path: string, h: WebSocketHandlers<ExecutionStreamMessage>) => {
+      handlers = h;
+      return connection;
+    }),
+  } as unknown as WebSocketClient;
+
+  const stream = new ExecutionStream(ws, 'env-1', 'print(1)', options, async () => {});
+  handlers.onOpen?.();
+
+  return {
+    stream,
+    connection,
+    emit: (message: ExecutionStreamMessage) => handlers.onMessage(message),
+    handlers,
+  };
+}
+
+async function collect(stream: ExecutionStream): Promise<ExecutionOutputChunk[]> {
+  const chunks: ExecutionOutputChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('ExecutionStream', () => {
+  it('sends the execute request once connected', () => {
+    const { connection } = fakeStream({ language: 'python' });
+
+    expect(connection.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'execute', code: 'print(1)', language: 'python' })
+    );
+  });
+
+  it('yields chunks and then resolves the result when iterated first', async () => {
+    const { stream, emit } = fakeStream();
+    const chunks = collect(stream);
+
+    emit({ type: 'started', executionId: 'exec-1' });
+    emit({ type: 'stdout', data: 'a\n' });
+    emit({ type: 'stderr', data: 'warn\n' });
+    emit({ type: 'exit', result });
+
+    await expect(chunks).resolves.toEqual([
+      { stream: 'stdout', data: 'a\n' },
+      { stream: 'stderr', data: 'warn\n' },
+    ]);
+    await expect(stream).resolves.toEqual(result);
+    expect(stream.executionId).toBe('exec-1');
+  });
+
+  it('does not buffer chunks when only the result is awaited', async () => {
+    const onStdout = vi.fn();
+    const { stream, emit } = fakeStream({ onStdout });
+    const awaited = stream.result;
+
+    emit({ type: 'stdout', data: 'a\n' });
+    emit({ type: 'stdout', data: 'b\n' });
+    emit({ type: 'exit', result });
+
+    await expect(awaited).resolves.toEqual(result);
+    expect(onStdout.mock.calls).toEqual([['a\n'], ['b\n']]);
+    await expect(collect(stream)).resolves.toEqual([]);
+  });
+
+  it('rejects the iterator and the result when the server reports an error', async () => {
+    const { stream, emit } = fakeStream();
+    const chunks = collect(stream);
+
+    emit({ type: 'stdout', data: 'a\n' });
+    emit({ type: 'error', message: 'sandbox stopped' });
+
+    await expect(chunks).rejects.toThrow('sandbox stopped');
+    await expect(stream.result).rejects.toThrow('sandbox stopped');
+  });
+
+  it('rejects the iterator and the result when the connection closes before exit', async () => {
+    const { stream, handlers } = fakeStream();
+    const chunks = collect(stream);
+
+    handlers.onClose?.(1006, '');
+
+    await expect(chunks).rejects.toThrow('closed before the process exited');
+    await expect(stream.result).rejects.toThrow('closed before the process exited');
+  });
+});
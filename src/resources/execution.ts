@@ -3,6 +3,7 @@
  *
  * Provides methods for executing code within a sandbox:
  * - Execute code snippets
+ * - Stream execution output in real time
  * - List execution history
  * - Get execution details
  * - Cancel running executions
@@ -10,12 +11,154 @@
  */
 
 import type { HttpClient } from '../utils/http-client';
+import type { WebSocketClient, WebSocketConnection } from '../utils/websocket';
 import type {
   ExecutionOptions,
+  ExecutionStreamOptions,
+  ExecutionStreamMessage,
+  ExecutionOutputChunk,
   ExecutionResult,
   Execution,
   ProgrammingLanguage,
 } from '../types';
+import { VibeBoxError } from '../errors';
+import { AsyncQueue } from '../utils/async-queue';
+import { sleep } from '../utils/retry';
+
+/**
+ * A running streamed execution
+ *
+ * Iterate it to receive output chunks as they arrive, or await it (or its
+ * `result` property) to get the final {@link ExecutionResult}.
+ *
+ * Chunks are buffered for iteration only until the stream is awaited: if
+ * the result is requested before iteration starts, output is delivered to
+ * `onStdout`/`onStderr` and the result only, so long runs don't accumulate
+ * their output in memory.
+ */
+export class ExecutionStream implements AsyncIterable<ExecutionOutputChunk>, PromiseLike<ExecutionResult> {
+  /** Execution ID, available once the server has started the execution */
+  public executionId: string | null = null;
+
+  private readonly resultPromise: Promise<ExecutionResult>;
+  private readonly chunks: AsyncQueue<ExecutionOutputChunk>;
+  private consumer: 'none' | 'iterator' | 'result' = 'none';
+  private readonly connection: WebSocketConnection<ExecutionStreamMessage, unknown>;
+
+  constructor(
+    ws: WebSocketClient,
+    environmentId: string,
+    code: string,
+    options: ExecutionStreamOptions | undefined,
+    private readonly cancelExecution: (executionId: string) => Promise<void>
+  ) {
+    let resolveResult!: (result: ExecutionResult) => void;
+    let rejectResult!: (error: unknown) => void;
+    this.resultPromise = new Promise((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+    // Callers may only iterate; don't surface the rejection as unhandled
+    this.resultPromise.catch(() => {});
+
+    this.chunks = new AsyncQueue<ExecutionOutputChunk>();
+
+    const fail = (error: Error) => {
+      this.chunks.fail(error);
+      rejectResult(error);
+    };
+
+    this.connection = ws.connect<ExecutionStreamMessage>(
+      `/api/v1/environments/${environmentId}/execute/stream`,
+      {
+        onOpen: () => {
+          this.connection.send({
+            type: 'execute',
+            code,
+            language: options?.language || 'javascript',
+            timeout: options?.timeout || 30000,
+            env: options?.env,
+            cwd: options?.cwd,
+          });
+        },
+        onMessage: (message) => {
+          switch (message.type) {
+            case 'started':
+              this.executionId = message.executionId;
+              break;
+            case 'stdout':
+              options?.onStdout?.(message.data);
+              this.chunks.push({ stream: 'stdout', data: message.data });
+              break;
+            case 'stderr':
+              options?.onStderr?.(message.data);
+              this.chunks.push({ stream: 'stderr', data: message.data });
+              break;
+            case 'exit':
+              this.chunks.end();
+              resolveResult(message.result);
+              this.connection.close();
+              break;
+            case 'error':
+              fail(new VibeBoxError(message.message));
+              this.connection.close();
+              break;
+          }
+        },
+        onError: (error) => fail(error),
+        onClose: () => fail(new VibeBoxError('Execution stream closed before the process exited')),
+      },
+      // Reconnecting would re-run the code, so a dropped stream is terminal
+      { reconnect: false }
+    );
+  }
+
+  /**
+   * Final execution result, resolved when the process exits
+   */
+  get result(): Promise<ExecutionResult> {
+    this.stopBuffering();
+    return this.resultPromise;
+  }
+
+  /**
+   * Cancel the execution
+   *
+   * Closes the stream; if the server has already started the process it is
+   * cancelled as well.
+   */
+  async cancel(): Promise<void> {
+    this.connection.close();
+    if (this.executionId) {
+      await this.cancelExecution(this.executionId);
+    }
+  }
+
+  then<TResult1 = ExecutionResult, TResult2 = never>(
+    onfulfilled?: ((value: ExecutionResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ExecutionOutputChunk> {
+    if (this.consumer === 'none') {
+      this.consumer = 'iterator';
+    }
+    return this.chunks;
+  }
+
+  /**
+   * Drop buffered chunks once only the result is wanted
+   */
+  private stopBuffering(): void {
+    if (this.consumer === 'none') {
+      this.consumer = 'result';
+      // Ends the queue; later pushes are ignored
+      this.chunks.return();
+    }
+  }
+}
 
 /**
  * Code execution resource class
@@ -23,7 +166,8 @@ import type {
 export class ExecutionResource {
   constructor(
     private readonly environmentId: string,
-    private readonly http: HttpClient
+    private readonly http: HttpClient,
+    private readonly ws: WebSocketClient
   ) {}
 
   /**
@@ -58,9 +202,68 @@ export class ExecutionResource {
    *   'print("Hello from Python")',
    *   { language: 'python' }
    * );
+   *
+   * // Run in a directory and retry flaky failures
+   * const result = await sandbox.execution.execute('npm test', {
+   *   language: 'bash',
+   *   cwd: '/workspace/repo',
+   *   retries: 2,
+   *   retryDelay: 5000,
+   *   retryOn: (r) => r.exitCode !== 0 && r.stderr.includes('ECONNRESET')
+   * });
    * ```
    */
   async execute(code: string, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const retries = options?.retries ?? 0;
+    const retryDelay = options?.retryDelay ?? 1000;
+    const shouldRetry = options?.retryOn ?? ((result: ExecutionResult) => result.exitCode !== 0);
+
+    let result = await this.executeOnce(code, options);
+    for (let attempt = 0; attempt < retries && shouldRetry(result); attempt++) {
+      await sleep(retryDelay);
+      result = await this.executeOnce(code, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute code and stream its output as it is produced
+   *
+   * @param code - Code to execute
+   * @param options - Execution options with optional output callbacks
+   * @returns Execution stream (async iterable of output chunks, awaitable for the final result)
+   *
+   * @example
+   * ```typescript
+   * // Callbacks
+   * const result = await sandbox.execution.stream('npm install', {
+   *   language: 'bash',
+   *   onStdout: (data) => process.stdout.write(data),
+   *   onStderr: (data) => process.stderr.write(data),
+   * });
+   * console.log(`Exit code: ${result.exitCode}`);
+   *
+   * // Async iteration
+   * const execution = sandbox.execution.stream('npm test', { language: 'bash' });
+   * for await (const chunk of execution) {
+   *   console.log(`[${chunk.stream}] ${chunk.data}`);
+   * }
+   * const { exitCode } = await execution.result;
+   * ```
+   */
+  stream(code: string, options?: ExecutionStreamOptions): ExecutionStream {
+    return new ExecutionStream(this.ws, this.environmentId, code, options, (id) => this.cancel(id));
+  }
+
+  /**
+   * Run a single execution attempt
+   */
+  private async executeOnce(code: string, options?: ExecutionOptions): Promise<ExecutionResult> {
+    if (options?.stream) {
+      return this.stream(code, options);
+    }
+
     return this.http.post<ExecutionResult>(
       `/api/v1/environments/${this.environmentId}/execute`,
       {
@@ -68,11 +271,7 @@ export class ExecutionResource {
         language: options?.language || 'javascript',
         timeout: options?.timeout || 30000,
         env: options?.env,
-      },
-      {
-        params: {
-          stream: options?.stream || false,
-        },
+        cwd: options?.cwd,
       }
     );
   }
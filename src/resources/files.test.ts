@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilesResource } from './files';
+import { NotFoundError, VibeBoxError } from '../errors';
+import type { HttpClient } from '../utils/http-client';
+import type { WebSocketClient } from '../utils/websocket';
+import type { RemoteFileEntry } from '../types';
+
+const modifiedAt = new Date('2026-01-01T00:00:00Z');
+const later = '2026-01-01T01:00:00.000Z';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+/**
+ * FilesResource backed by a fixed remote manifest
+ */
+function filesWithManifest(files: RemoteFileEntry[]) {
+  const http = {
+    get: vi.fn(async (url: string) => {
+      if (url.endsWith('/files/manifest')) {
+        return { path: '/workspace/app', files };
+      }
+      throw new NotFoundError();
+    }),
+  };
+  return new FilesResource('env-1', http as unknown as HttpClient, {} as WebSocketClient);
+}
+
+let localDir: string;
+
+beforeEach(async () => {
+  localDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vibebox-sync-'));
+
+  const write = async (name: string, content: string) => {
+    await fs.writeFile(path.join(localDir, name), content);
+    await fs.utimes(path.join(localDir, name), modifiedAt, modifiedAt);
+  };
+  await write('same.txt', 'hello');
+  await write('edited.txt', 'world');
+  await write('grown.txt', 'x');
+  await write('local-only.txt', 'new');
+});
+
+afterEach(async () => {
+  await fs.rm(localDir, { recursive: true, force: true });
+});
+
+// Remote side: one identical file, one with the same size but different
+// content and a newer mtime, one with a different size, one remote-only file
+const manifest: RemoteFileEntry[] = [
+  { path: 'edited.txt', size: 5, modifiedAt: later, checksum: sha256('WORLD') },
+  { path: 'grown.txt', size: 2, modifiedAt: modifiedAt.toISOString(), checksum: sha256('xx') },
+  { path: 'remote-only.txt', size: 3, modifiedAt: later, checksum: sha256('old') },
+  { path: 'same.txt', size: 5, modifiedAt: modifiedAt.toISOString(), checksum: sha256('hello') },
+];
+
+describe('FilesResource.syncUp', () => {
+  it('only treats size differences as changes with compare: size', async () => {
+    const files = filesWithManifest(manifest);
+
+    const result = await files.syncUp(localDir, '/workspace/app', { compare: 'size', dryRun: true, delete: true });
+
+    expect(result).toEqual({
+      added: ['local-only.txt'],
+      updated: ['grown.txt'],
+      deleted: ['remote-only.txt'],
+      unchanged: 2,
+      dryRun: true,
+    });
+  });
+
+  it('does not upload files that are older locally with compare: mtime', async () => {
+    const files = filesWithManifest(manifest);
+
+    const result = await files.syncUp(localDir, '/workspace/app', { compare: 'mtime', dryRun: true });
+
+    expect(result.updated).toEqual(['grown.txt']);
+    expect(result.unchanged).toBe(2);
+  });
+
+  it('detects same-size content changes with compare: hash', async () => {
+    const files = filesWithManifest(manifest);
+
+    const result = await files.syncUp(localDir, '/workspace/app', { dryRun: true });
+
+    expect(result.updated).toEqual(['edited.txt', 'grown.txt']);
+    expect(result.unchanged).toBe(1);
+  });
+
+  it('leaves extra remote files alone without delete', async () => {
+    const files = filesWithManifest(manifest);
+
+    const result = await files.syncUp(localDir, '/workspace/app', { dryRun: true });
+
+    expect(result.deleted).toEqual([]);
+  });
+});
+
+describe('FilesResource.syncDown', () => {
+  it('downloads files that are newer remotely with compare: mtime', async () => {
+    const files = filesWithManifest(manifest);
+
+    const result = await files.syncDown('/workspace/app', localDir, { compare: 'mtime', dryRun: true, delete: true });
+
+    expect(result).toEqual({
+      added: ['remote-only.txt'],
+      updated: ['edited.txt', 'grown.txt'],
+      deleted: ['local-only.txt'],
+      unchanged: 1,
+      dryRun: true,
+    });
+  });
+
+  it('does not touch the local directory on a dry run', async () => {
+    const files = filesWithManifest(manifest);
+
+    await files.syncDown('/workspace/app', localDir, { dryRun: true, delete: true });
+
+    expect((await fs.readdir(localDir)).sort()).toEqual(['edited.txt', 'grown.txt', 'local-only.txt', 'same.txt']);
+  });
+
+  it('rejects manifest paths that escape the local directory', async () => {
+    for (const escaping of ['../evil.txt', 'nested/../../evil.txt', '/tmp/evil.txt']) {
+      const files = filesWithManifest([{ path: escaping, size: 4, modifiedAt: later }]);
+
+      await expect(files.syncDown('/workspace/app', localDir, { dryRun: true })).rejects.toThrow(VibeBoxError);
+      await expect(files.syncDown('/workspace/app', localDir)).rejects.toThrow('outside');
+    }
+    await expect(fs.access(path.join(localDir, '..', 'evil.txt'))).rejects.toThrow();
+  });
+});
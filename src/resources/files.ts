@@ -4,21 +4,119 @@
  * Provides methods for file operations within a sandbox:
  * - List files and directories
  * - Upload and download files
+ * - Read and write text/JSON, apply patches
+ * - Stream large files in resumable chunks
+ * - Sync directories between the local filesystem and the sandbox
+ * - Export and import directory archives
+ * - Watch for file changes
  * - Create directories
+ * - Inspect metadata and manage permissions, ownership and symlinks
  * - Copy and move files
  * - Delete files
  * - Search for files
+ * - Search file contents
  */
 
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as nodePath from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
 import type { HttpClient } from '../utils/http-client';
+import type { WebSocketClient } from '../utils/websocket';
 import type {
   FileInfo,
+  FileStat,
+  FileTreeNode,
+  FileTreeOptions,
+  ChmodOptions,
+  ChownOptions,
   ListFilesResponse,
   UploadResult,
+  UploadSession,
+  UploadStreamOptions,
+  StreamUploadResult,
+  DownloadStreamOptions,
+  FileChecksum,
+  FileManifest,
+  RemoteFileEntry,
+  SyncOptions,
+  SyncResult,
+  SyncCompareMode,
+  ExportArchiveOptions,
+  ImportArchiveOptions,
+  ImportArchiveResult,
+  FileWatchEvent,
+  FileWatchOptions,
+  FileWatchSubscription,
+  WriteJSONOptions,
+  PatchResult,
   DeleteFileOptions,
   MakeDirOptions,
   SearchFilesResponse,
+  GrepOptions,
+  GrepResult,
 } from '../types';
+import { ChecksumMismatchError, NotFoundError, ValidationError, VibeBoxError } from '../errors';
+import { parseUnifiedDiff, applyHunks } from '../utils/diff';
+import { createIgnoreMatcher } from '../utils/ignore';
+import type { IgnoreMatcher } from '../utils/ignore';
+import { walkLocalDirectory, hashLocalFile, readLocalIgnoreFile } from '../utils/local-files';
+import type { LocalFileEntry } from '../utils/local-files';
+import { mapConcurrent } from '../utils/concurrency';
+
+/**
+ * Default chunk size for streamed transfers (8 MiB)
+ */
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Patterns always skipped by directory sync
+ */
+const DEFAULT_SYNC_IGNORE = ['.git/'];
+
+/**
+ * Decide whether a file differs between the sync source and destination
+ */
+async function hasChanged(
+  local: LocalFileEntry,
+  localPath: string,
+  remote: RemoteFileEntry,
+  compare: SyncCompareMode,
+  direction: 'up' | 'down'
+): Promise<boolean> {
+  if (local.size !== remote.size) {
+    return true;
+  }
+
+  switch (compare) {
+    case 'size':
+      return false;
+    case 'mtime': {
+      const localTime = local.modifiedAt.getTime();
+      const remoteTime = Date.parse(remote.modifiedAt);
+      return direction === 'up' ? localTime > remoteTime : remoteTime > localTime;
+    }
+    case 'hash':
+      return !remote.checksum || (await hashLocalFile(localPath)) !== remote.checksum;
+  }
+}
+
+/**
+ * Resolve a sync path under its root directory
+ *
+ * Paths in a remote manifest come from the server, so a "../" or absolute
+ * path must not be allowed to write or delete outside the local directory.
+ */
+function resolveLocalPath(root: string, path: string): string {
+  const resolvedRoot = nodePath.resolve(root);
+  const resolved = nodePath.resolve(resolvedRoot, path);
+  if (resolved === resolvedRoot || !resolved.startsWith(resolvedRoot + nodePath.sep)) {
+    throw new VibeBoxError(`Refusing to sync "${path}" outside of ${root}`);
+  }
+  return resolved;
+}
 
 /**
  * File operations resource class
@@ -26,7 +124,8 @@ import type {
 export class FilesResource {
   constructor(
     private readonly environmentId: string,
-    private readonly http: HttpClient
+    private readonly http: HttpClient,
+    private readonly ws: WebSocketClient
   ) {}
 
   /**
@@ -133,6 +232,834 @@ export class FilesResource {
     return Buffer.from(arrayBuffer);
   }
 
+  /**
+   * Get detailed file metadata
+   *
+   * Unlike `info()`, includes ownership, symlink target, MIME type and
+   * content hash.
+   *
+   * @param path - File path
+   * @returns Detailed file metadata
+   *
+   * @example
+   * ```typescript
+   * const stat = await sandbox.files.stat('/workspace/dist/app.js');
+   * console.log(`${stat.owner}:${stat.group} ${stat.permissions} ${stat.mimeType}`);
+   * console.log(`sha256: ${stat.hash}`);
+   * ```
+   */
+  async stat(path: string): Promise<FileStat> {
+    return this.http.get<FileStat>(
+      `/api/v1/environments/${this.environmentId}/files/stat`,
+      { params: { path } }
+    );
+  }
+
+  /**
+   * Get a recursive directory listing
+   *
+   * @param path - Directory path (default: /workspace)
+   * @param options - Tree options
+   * @returns Root node with nested children
+   *
+   * @example
+   * ```typescript
+   * const tree = await sandbox.files.tree('/workspace/app', { depth: 2 });
+   * const print = (node, indent = '') => {
+   *   console.log(`${indent}${node.name}`);
+   *   node.children?.forEach((child) => print(child, indent + '  '));
+   * };
+   * print(tree);
+   * ```
+   */
+  async tree(path: string = '/workspace', options?: FileTreeOptions): Promise<FileTreeNode> {
+    return this.http.get<FileTreeNode>(
+      `/api/v1/environments/${this.environmentId}/files/tree`,
+      { params: { path, depth: options?.depth ?? 3 } }
+    );
+  }
+
+  /**
+   * Change file permissions
+   *
+   * @param path - File or directory path
+   * @param mode - Octal mode (e.g. '755' or 0o755) or symbolic mode (e.g. 'u+x')
+   * @param options - Chmod options
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.chmod('/workspace/scripts/deploy.sh', '755');
+   * await sandbox.files.chmod('/workspace/bin', 'u+x', { recursive: true });
+   * ```
+   */
+  async chmod(path: string, mode: string | number, options?: ChmodOptions): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/files/chmod`,
+      {
+        path,
+        mode: typeof mode === 'number' ? mode.toString(8) : mode,
+        recursive: options?.recursive || false,
+      }
+    );
+  }
+
+  /**
+   * Change file ownership
+   *
+   * @param path - File or directory path
+   * @param owner - User name or UID
+   * @param group - Group name or GID (unchanged if not provided)
+   * @param options - Chown options
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.chown('/workspace/app', 'node', 'node', { recursive: true });
+   * ```
+   */
+  async chown(path: string, owner: string | number, group?: string | number, options?: ChownOptions): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/files/chown`,
+      {
+        path,
+        owner: String(owner),
+        group: group !== undefined ? String(group) : undefined,
+        recursive: options?.recursive || false,
+      }
+    );
+  }
+
+  /**
+   * Create a symbolic link
+   *
+   * @param target - Path the link points to
+   * @param path - Path of the link to create
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.symlink('/workspace/app/releases/v2', '/workspace/app/current');
+   * ```
+   */
+  async symlink(target: string, path: string): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/files/symlink`,
+      {
+        target,
+        path,
+      }
+    );
+  }
+
+  /**
+   * Read a file as text
+   *
+   * @param path - File path in sandbox
+   * @param encoding - Text encoding (default: utf8)
+   * @returns File content
+   *
+   * @example
+   * ```typescript
+   * const readme = await sandbox.files.readText('/workspace/README.md');
+   * ```
+   */
+  async readText(path: string, encoding: BufferEncoding = 'utf8'): Promise<string> {
+    return (await this.download(path)).toString(encoding);
+  }
+
+  /**
+   * Write text to a file, replacing its content
+   *
+   * @param path - File path in sandbox
+   * @param content - Text content
+   * @param permissions - File permissions (default: 644)
+   * @returns Upload result
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.writeText('/workspace/.env', 'NODE_ENV=test\n');
+   * ```
+   */
+  async writeText(path: string, content: string, permissions: string = '644'): Promise<UploadResult> {
+    return this.upload(path, content, permissions);
+  }
+
+  /**
+   * Read and parse a JSON file
+   *
+   * @param path - File path in sandbox
+   * @returns Parsed value
+   *
+   * @example
+   * ```typescript
+   * const pkg = await sandbox.files.readJSON<{ version: string }>('/workspace/package.json');
+   * console.log(pkg.version);
+   * ```
+   */
+  async readJSON<T = any>(path: string): Promise<T> {
+    return JSON.parse(await this.readText(path)) as T;
+  }
+
+  /**
+   * Serialize a value as JSON and write it to a file
+   *
+   * @param path - File path in sandbox
+   * @param value - Value to serialize
+   * @param options - Formatting options
+   * @returns Upload result
+   *
+   * @example
+   * ```typescript
+   * const pkg = await sandbox.files.readJSON('/workspace/package.json');
+   * pkg.dependencies.react = '^18.3.0';
+   * await sandbox.files.writeJSON('/workspace/package.json', pkg);
+   * ```
+   */
+  async writeJSON(path: string, value: unknown, options?: WriteJSONOptions): Promise<UploadResult> {
+    const content = `${JSON.stringify(value, null, options?.indent ?? 2)}\n`;
+    return this.writeText(path, content, options?.permissions);
+  }
+
+  /**
+   * Check whether a file or directory exists
+   *
+   * @param path - Path in sandbox
+   * @returns True if the path exists
+   *
+   * @example
+   * ```typescript
+   * if (await sandbox.files.exists('/workspace/yarn.lock')) {
+   *   await sandbox.run('yarn install', { language: 'bash' });
+   * }
+   * ```
+   */
+  async exists(path: string): Promise<boolean> {
+    try {
+      await this.info(path);
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Append text to a file, creating it if needed
+   *
+   * @param path - File path in sandbox
+   * @param content - Text to append
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.append('/workspace/.gitignore', 'coverage/\n');
+   * ```
+   */
+  async append(path: string, content: string): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/files/append`,
+      {
+        path,
+        content,
+      }
+    );
+  }
+
+  /**
+   * Apply a unified diff to a file
+   *
+   * The patch is applied atomically: if any hunk fails to apply the file
+   * is left untouched and the failed hunks are reported. Hunks are matched
+   * by context, so they still apply if surrounding lines have shifted.
+   *
+   * @param path - File path in sandbox
+   * @param unifiedDiff - Unified diff for this file (with or without file headers)
+   * @returns Patch result listing any failed hunks
+   * @throws ValidationError if the diff has no hunks or touches several files
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.files.applyPatch('/workspace/src/auth.ts', diffFromAgent);
+   * if (!result.applied) {
+   *   result.failedHunks.forEach(h => console.warn(`Hunk ${h.index} at line ${h.oldStart}: ${h.reason}`));
+   * }
+   * ```
+   */
+  async applyPatch(path: string, unifiedDiff: string): Promise<PatchResult> {
+    const patches = parseUnifiedDiff(unifiedDiff);
+    if (patches.length !== 1 || patches[0].hunks.length === 0) {
+      throw new ValidationError(
+        patches.length > 1
+          ? `Diff touches ${patches.length} files; applyPatch expects a diff for a single file`
+          : 'Diff contains no hunks',
+        { unifiedDiff: 'Must contain hunks for exactly one file' }
+      );
+    }
+
+    // Only trust the headers; a headerless diff patches the existing file.
+    // Pure insertions at the top (-0,0) also create the file if it's missing.
+    const isNewFile = patches[0].isNew
+      || (patches[0].hunks.every((h) => h.oldStart === 0 && h.oldLines === 0) && !(await this.exists(path)));
+    const info = isNewFile ? null : await this.info(path);
+    const original = isNewFile ? '' : await this.readText(path);
+    const { content, applied, failed } = applyHunks(original, patches[0].hunks);
+
+    if (failed.length > 0) {
+      return { applied: false, path, hunksApplied: 0, failedHunks: failed };
+    }
+
+    // Write next to the target and rename over it so readers never see a partial file
+    const tempPath = `${path}.${Date.now().toString(36)}.patch.tmp`;
+    await this.upload(tempPath, content, info?.permissions || '644');
+    await this.move(tempPath, path);
+
+    return { applied: true, path, hunksApplied: applied, failedHunks: [] };
+  }
+
+  /**
+   * Upload a stream in resumable chunks
+   *
+   * Only one chunk is held in memory at a time, so this is suitable for
+   * files far larger than the available heap. The SHA-256 checksum is
+   * computed while streaming and verified against the server's copy.
+   *
+   * @param path - Destination path in sandbox
+   * @param source - Node.js Readable or WHATWG ReadableStream
+   * @param options - Upload options
+   * @returns Upload result including the verified checksum
+   * @throws ChecksumMismatchError if the uploaded content does not match
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.files.uploadStream(
+   *   '/workspace/models/weights.bin',
+   *   fs.createReadStream('weights.bin'),
+   *   {
+   *     size: fs.statSync('weights.bin').size,
+   *     onProgress: ({ bytesTransferred, totalBytes }) => {
+   *       console.log(`${bytesTransferred}/${totalBytes}`);
+   *     }
+   *   }
+   * );
+   *
+   * // Resume an interrupted upload
+   * await sandbox.files.uploadStream(path, fs.createReadStream('weights.bin'), { uploadId });
+   * ```
+   */
+  async uploadStream(
+    path: string,
+    source: Readable | ReadableStream,
+    options?: UploadStreamOptions
+  ): Promise<StreamUploadResult> {
+    const chunkSize = options?.chunkSize || DEFAULT_CHUNK_SIZE;
+    const totalBytes = options?.size ?? null;
+    const basePath = `/api/v1/environments/${this.environmentId}/files/uploads`;
+
+    const session = options?.uploadId
+      ? await this.http.get<UploadSession>(`${basePath}/${options.uploadId}`)
+      : await this.http.post<UploadSession>(basePath, {
+          path,
+          permissions: options?.permissions || '644',
+          size: options?.size,
+        });
+
+    const hash = createHash('sha256');
+    let uploaded = session.offset;
+    let skip = session.offset;
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    const putChunk = async (chunk: Buffer) => {
+      await this.http.put(`${basePath}/${session.uploadId}`, chunk, {
+        params: { offset: uploaded },
+      });
+      uploaded += chunk.length;
+      options?.onProgress?.({ bytesTransferred: uploaded, totalBytes, uploadId: session.uploadId });
+    };
+
+    const readable = source instanceof Readable ? source : Readable.fromWeb(source);
+    for await (const piece of readable) {
+      let buffer: Buffer = Buffer.isBuffer(piece) ? piece : Buffer.from(piece);
+      hash.update(buffer);
+
+      // Skip bytes the server already has when resuming
+      if (skip > 0) {
+        const skipped = Math.min(skip, buffer.length);
+        skip -= skipped;
+        buffer = buffer.subarray(skipped);
+        if (buffer.length === 0) {
+          continue;
+        }
+      }
+
+      pending.push(buffer);
+      pendingBytes += buffer.length;
+
+      while (pendingBytes >= chunkSize) {
+        const combined = Buffer.concat(pending);
+        await putChunk(combined.subarray(0, chunkSize));
+        pending = [combined.subarray(chunkSize)];
+        pendingBytes = pending[0].length;
+      }
+    }
+
+    if (pendingBytes > 0) {
+      await putChunk(Buffer.concat(pending));
+    }
+
+    const checksum = hash.digest('hex');
+    const result = await this.http.post<StreamUploadResult>(`${basePath}/${session.uploadId}/complete`, {
+      checksum,
+    });
+
+    if (options?.verify !== false && result.checksum !== checksum) {
+      throw new ChecksumMismatchError(
+        `Checksum mismatch after uploading ${path}`,
+        checksum,
+        result.checksum
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Download a file as a stream of chunks
+   *
+   * Fetches the file with ranged requests so only one chunk is held in
+   * memory at a time. Each chunk is retried independently, and `offset`
+   * resumes a partial download.
+   *
+   * @param path - File path in sandbox
+   * @param options - Download options
+   * @returns Readable stream of file content
+   *
+   * @example
+   * ```typescript
+   * import { pipeline } from 'stream/promises';
+   *
+   * await pipeline(
+   *   sandbox.files.downloadStream('/workspace/dist/bundle.tar', {
+   *     onProgress: ({ bytesTransferred, totalBytes }) => console.log(`${bytesTransferred}/${totalBytes}`)
+   *   }),
+   *   fs.createWriteStream('bundle.tar')
+   * );
+   * ```
+   */
+  downloadStream(path: string, options?: DownloadStreamOptions): Readable {
+    return Readable.from(this.downloadChunks(path, options), { objectMode: false });
+  }
+
+  /**
+   * Get the SHA-256 checksum of a file
+   *
+   * @param path - File path in sandbox
+   * @returns Hex-encoded checksum
+   *
+   * @example
+   * ```typescript
+   * const checksum = await sandbox.files.checksum('/workspace/dist/app.js');
+   * ```
+   */
+  async checksum(path: string): Promise<string> {
+    const response = await this.http.get<FileChecksum>(
+      `/api/v1/environments/${this.environmentId}/files/checksum`,
+      { params: { path, algorithm: 'sha256' } }
+    );
+    return response.checksum;
+  }
+
+  /**
+   * Push a local directory into the sandbox
+   *
+   * Transfers only files that are new or changed, skipping paths matched
+   * by `.gitignore` and `ignore`.
+   *
+   * @param localDir - Local source directory
+   * @param remoteDir - Destination directory in sandbox
+   * @param options - Sync options
+   * @returns Summary of what changed
+   *
+   * @example
+   * ```typescript
+   * // Preview what would change
+   * const preview = await sandbox.files.syncUp('./my-app', '/workspace/app', { dryRun: true });
+   * console.log(`${preview.added.length} new, ${preview.updated.length} changed`);
+   *
+   * // Mirror the working copy exactly
+   * await sandbox.files.syncUp('./my-app', '/workspace/app', {
+   *   ignore: ['node_modules/', '*.log'],
+   *   delete: true
+   * });
+   * ```
+   */
+  async syncUp(localDir: string, remoteDir: string, options?: SyncOptions): Promise<SyncResult> {
+    const compare = options?.compare || 'hash';
+    const gitignore = options?.gitignore !== false
+      ? await readLocalIgnoreFile(nodePath.join(localDir, '.gitignore'))
+      : [];
+    const ignores = createIgnoreMatcher([...DEFAULT_SYNC_IGNORE, ...gitignore, ...(options?.ignore || [])]);
+
+    const localFiles = await walkLocalDirectory(localDir, ignores);
+    const remoteFiles = await this.manifest(remoteDir, compare === 'hash', ignores);
+    const result: SyncResult = { added: [], updated: [], deleted: [], unchanged: 0, dryRun: !!options?.dryRun };
+
+    for (const local of localFiles) {
+      const remote = remoteFiles.get(local.path);
+      if (!remote) {
+        result.added.push(local.path);
+      } else if (await hasChanged(local, nodePath.join(localDir, local.path), remote, compare, 'up')) {
+        result.updated.push(local.path);
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    if (options?.delete) {
+      const localPaths = new Set(localFiles.map((file) => file.path));
+      result.deleted = [...remoteFiles.keys()].filter((path) => !localPaths.has(path));
+    }
+
+    if (result.dryRun) {
+      return result;
+    }
+
+    const byPath = new Map(localFiles.map((file) => [file.path, file]));
+    const transfers = [...result.added, ...result.updated];
+
+    const parentDirs = new Set(result.added.map((path) => nodePath.posix.dirname(nodePath.posix.join(remoteDir, path))));
+    for (const dir of parentDirs) {
+      await this.mkdir(dir, { recursive: true });
+    }
+
+    await mapConcurrent(transfers, options?.concurrency || 4, async (path) => {
+      const local = byPath.get(path) as LocalFileEntry;
+      await this.uploadStream(
+        nodePath.posix.join(remoteDir, path),
+        createReadStream(nodePath.join(localDir, path)),
+        {
+          size: local.size,
+          permissions: (local.mode & 0o777).toString(8),
+        }
+      );
+    });
+
+    await mapConcurrent(result.deleted, options?.concurrency || 4, (path) =>
+      this.delete(nodePath.posix.join(remoteDir, path))
+    );
+
+    return result;
+  }
+
+  /**
+   * Pull a sandbox directory to the local filesystem
+   *
+   * Transfers only files that are new or changed, skipping paths matched
+   * by the sandbox directory's `.gitignore` and `ignore`.
+   *
+   * @param remoteDir - Source directory in sandbox
+   * @param localDir - Local destination directory
+   * @param options - Sync options
+   * @returns Summary of what changed
+   * @throws VibeBoxError if the sandbox lists a path that resolves outside `localDir`
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.files.syncDown('/workspace/app/dist', './dist', { delete: true });
+   * console.log(`Downloaded ${result.added.length + result.updated.length} files`);
+   * ```
+   */
+  async syncDown(remoteDir: string, localDir: string, options?: SyncOptions): Promise<SyncResult> {
+    const compare = options?.compare || 'hash';
+    const gitignore = options?.gitignore !== false
+      ? await this.readRemoteIgnoreFile(nodePath.posix.join(remoteDir, '.gitignore'))
+      : [];
+    const ignores = createIgnoreMatcher([...DEFAULT_SYNC_IGNORE, ...gitignore, ...(options?.ignore || [])]);
+
+    await fs.mkdir(localDir, { recursive: true });
+    const localFiles = new Map(
+      (await walkLocalDirectory(localDir, ignores)).map((file) => [file.path, file])
+    );
+    const remoteFiles = await this.manifest(remoteDir, compare === 'hash', ignores);
+    const result: SyncResult = { added: [], updated: [], deleted: [], unchanged: 0, dryRun: !!options?.dryRun };
+
+    for (const remote of remoteFiles.values()) {
+      const localPath = resolveLocalPath(localDir, remote.path);
+      const local = localFiles.get(remote.path);
+      if (!local) {
+        result.added.push(remote.path);
+      } else if (await hasChanged(local, localPath, remote, compare, 'down')) {
+        result.updated.push(remote.path);
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    if (options?.delete) {
+      result.deleted = [...localFiles.keys()].filter((path) => !remoteFiles.has(path));
+    }
+
+    if (result.dryRun) {
+      return result;
+    }
+
+    await mapConcurrent([...result.added, ...result.updated], options?.concurrency || 4, async (path) => {
+      const localPath = resolveLocalPath(localDir, path);
+      await fs.mkdir(nodePath.dirname(localPath), { recursive: true });
+      await pipeline(
+        this.downloadStream(nodePath.posix.join(remoteDir, path)),
+        createWriteStream(localPath)
+      );
+    });
+
+    for (const path of result.deleted) {
+      await fs.rm(resolveLocalPath(localDir, path), { force: true });
+    }
+
+    return result;
+  }
+
+  /**
+   * Export a sandbox directory as an archive
+   *
+   * The archive is built server-side and streamed, so it is never held in
+   * memory as a whole.
+   *
+   * @param path - Directory to archive
+   * @param options - Archive options
+   * @returns Readable stream of archive content
+   *
+   * @example
+   * ```typescript
+   * import { pipeline } from 'stream/promises';
+   *
+   * const archive = await sandbox.files.exportArchive('/workspace/app/coverage', { format: 'zip' });
+   * await pipeline(archive, fs.createWriteStream('coverage.zip'));
+   * ```
+   */
+  async exportArchive(path: string, options?: ExportArchiveOptions): Promise<Readable> {
+    const params: Record<string, string> = {
+      path,
+      format: options?.format || 'tar.gz',
+    };
+    if (options?.exclude?.length) {
+      // JSON keeps patterns containing "," intact
+      params.exclude = JSON.stringify(options.exclude);
+    }
+
+    return this.http.get<Readable>(
+      `/api/v1/environments/${this.environmentId}/files/archive`,
+      {
+        params,
+        responseType: 'stream',
+      }
+    );
+  }
+
+  /**
+   * Extract an archive into a sandbox directory
+   *
+   * Extraction happens server-side. Streams are uploaded as they are read;
+   * note that streamed uploads are not retried on failure.
+   *
+   * @param path - Destination directory
+   * @param archive - Archive content (Buffer, Node.js Readable or WHATWG ReadableStream)
+   * @param options - Import options
+   * @returns Import result with the number of extracted files
+   *
+   * @example
+   * ```typescript
+   * await sandbox.files.importArchive(
+   *   '/workspace/fixtures',
+   *   fs.createReadStream('fixtures.tar.gz')
+   * );
+   *
+   * await sandbox.files.importArchive('/workspace/app', zipBuffer, {
+   *   format: 'zip',
+   *   stripComponents: 1,
+   *   timeout: 300000
+   * });
+   * ```
+   */
+  async importArchive(
+    path: string,
+    archive: Buffer | Readable | ReadableStream,
+    options?: ImportArchiveOptions
+  ): Promise<ImportArchiveResult> {
+    const body = Buffer.isBuffer(archive) || archive instanceof Readable
+      ? archive
+      : Readable.fromWeb(archive);
+
+    return this.http.post<ImportArchiveResult>(
+      `/api/v1/environments/${this.environmentId}/files/archive`,
+      body,
+      {
+        params: {
+          path,
+          format: options?.format || 'tar.gz',
+          stripComponents: options?.stripComponents || 0,
+          overwrite: options?.overwrite !== false,
+        },
+        // Large archives can take longer than the default request timeout
+        timeout: options?.timeout,
+      }
+    );
+  }
+
+  /**
+   * Watch a path for changes
+   *
+   * Events are pushed over WebSocket; the connection is re-established
+   * automatically until `unsubscribe()` is called.
+   *
+   * @param path - File or directory to watch
+   * @param options - Watch options
+   * @param callback - Called for every change
+   * @returns Subscription handle
+   *
+   * @example
+   * ```typescript
+   * const watcher = sandbox.files.watch(
+   *   '/workspace/app',
+   *   { recursive: true, ignore: ['node_modules/', '.git/'] },
+   *   (event) => {
+   *     if (event.type === 'rename') {
+   *       console.log(`${event.oldPath} -> ${event.path}`);
+   *     } else {
+   *       console.log(`${event.type}: ${event.path}`);
+   *     }
+   *   }
+   * );
+   *
+   * // Later
+   * watcher.unsubscribe();
+   * ```
+   */
+  watch(
+    path: string,
+    options: FileWatchOptions,
+    callback: (event: FileWatchEvent) => void
+  ): FileWatchSubscription {
+    const root = path.replace(/\/+$/, '');
+    const ignores = createIgnoreMatcher(options.ignore || []);
+    const recursive = options.recursive !== false;
+
+    const params: Record<string, string | boolean> = { path, recursive };
+    if (options.ignore?.length) {
+      // JSON keeps patterns containing "," (e.g. "*.{js,map}") intact
+      params.ignore = JSON.stringify(options.ignore);
+    }
+
+    const connection = this.ws.connect<FileWatchEvent>(
+      `/api/v1/environments/${this.environmentId}/files/watch`,
+      {
+        onMessage: (event) => {
+          // Ignore patterns are relative to the watched path
+          const relative = nodePath.posix.relative(root, event.path);
+          if (relative && !relative.startsWith('..') && ignores(relative, event.isDirectory)) {
+            return;
+          }
+          callback(event);
+        },
+        onError: options.onError,
+      },
+      {
+        params,
+        reconnect: options.reconnect !== false,
+      }
+    );
+
+    return {
+      unsubscribe: () => connection.close(),
+    };
+  }
+
+  /**
+   * Fetch the recursive file listing of a sandbox directory, minus ignored paths
+   */
+  private async manifest(
+    path: string,
+    checksums: boolean,
+    ignores: IgnoreMatcher
+  ): Promise<Map<string, RemoteFileEntry>> {
+    let response: FileManifest;
+    try {
+      response = await this.http.get<FileManifest>(
+        `/api/v1/environments/${this.environmentId}/files/manifest`,
+        { params: { path, checksums } }
+      );
+    } catch (error) {
+      // A missing destination directory is simply empty
+      if (error instanceof NotFoundError) {
+        return new Map();
+      }
+      throw error;
+    }
+
+    return new Map(
+      response.files
+        .filter((file) => !ignores(file.path))
+        .map((file) => [file.path, file])
+    );
+  }
+
+  /**
+   * Read a .gitignore file from the sandbox
+   */
+  private async readRemoteIgnoreFile(path: string): Promise<string[]> {
+    try {
+      return (await this.download(path)).toString('utf8').split(/\r?\n/);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a file range by range, verifying the checksum at the end
+   */
+  private async *downloadChunks(path: string, options?: DownloadStreamOptions): AsyncGenerator<Buffer> {
+    const chunkSize = options?.chunkSize || DEFAULT_CHUNK_SIZE;
+    const offset = options?.offset || 0;
+    const verify = options?.verify !== false && offset === 0;
+    const { size } = await this.info(path);
+    const hash = createHash('sha256');
+
+    for (let start = offset; start < size; start += chunkSize) {
+      const end = Math.min(start + chunkSize, size) - 1;
+      const arrayBuffer = await this.http.get<ArrayBuffer>(
+        `/api/v1/environments/${this.environmentId}/files/download`,
+        {
+          params: { path },
+          headers: { Range: `bytes=${start}-${end}` },
+          responseType: 'arraybuffer',
+        }
+      );
+
+      // A server or proxy that ignores Range sends the whole file for every chunk
+      const chunk = Buffer.from(arrayBuffer);
+      if (chunk.length !== end - start + 1) {
+        throw new VibeBoxError(
+          `Range request for bytes ${start}-${end} of ${path} returned ${chunk.length} bytes`
+        );
+      }
+      if (verify) {
+        hash.update(chunk);
+      }
+      options?.onProgress?.({ bytesTransferred: start + chunk.length, totalBytes: size });
+      yield chunk;
+    }
+
+    if (verify) {
+      const expected = await this.checksum(path);
+      const actual = hash.digest('hex');
+      if (expected !== actual) {
+        throw new ChecksumMismatchError(`Checksum mismatch after downloading ${path}`, expected, actual);
+      }
+    }
+  }
+
   /**
    * Delete a file or directory
    *
@@ -256,4 +1183,48 @@ export class FilesResource {
     );
     return response.files;
   }
+
+  /**
+   * Search file contents
+   *
+   * @param pattern - Text (or regular expression with `regex: true`) to find
+   * @param options - Search options
+   * @returns Matches with location and surrounding context
+   *
+   * @example
+   * ```typescript
+   * const { matches, truncated } = await sandbox.files.grep('createUser', {
+   *   path: '/workspace/repo/src',
+   *   include: ['*.ts'],
+   *   exclude: ['**\/*.test.ts'],
+   *   contextLines: 2
+   * });
+   * matches.forEach(m => console.log(`${m.file}:${m.line}:${m.column} ${m.text}`));
+   *
+   * // Regular expression, case-insensitive
+   * await sandbox.files.grep('todo|fixme', { regex: true, caseInsensitive: true });
+   * ```
+   */
+  async grep(pattern: string, options?: GrepOptions): Promise<GrepResult> {
+    const params: Record<string, string | number | boolean> = {
+      pattern,
+      path: options?.path || '/workspace',
+      regex: options?.regex || false,
+      caseInsensitive: options?.caseInsensitive || false,
+      maxResults: options?.maxResults || 1000,
+      contextLines: options?.contextLines || 0,
+    };
+    // JSON keeps globs containing "," (e.g. "*.{ts,tsx}") intact
+    if (options?.include?.length) {
+      params.include = JSON.stringify(options.include);
+    }
+    if (options?.exclude?.length) {
+      params.exclude = JSON.stringify(options.exclude);
+    }
+
+    return this.http.get<GrepResult>(
+      `/api/v1/environments/${this.environmentId}/files/grep`,
+      { params }
+    );
+  }
 }
@@ -7,6 +7,11 @@
  * - Commit changes
  * - Checkout branches
  * - Get status and diff
+ * - Inspect branches, history and tags
+ * - Merge, rebase and cherry-pick with conflict resolution
+ * - Stage, restore, reset, stash and clean
+ * - Manage remotes, credentials and config
+ * - Open pull requests on the hosting provider
  */
 
 import type { HttpClient } from '../utils/http-client';
@@ -22,16 +27,112 @@ import type {
   GitCheckoutOptions,
   GitStatus,
   GitDiff,
+  GitDiffFile,
+  GitDiffOptions,
+  GitDiffStat,
+  GitDiffStatOptions,
+  GitBranch,
+  GitBranchesOptions,
+  GitDeleteBranchOptions,
+  GitCommit,
+  GitLogOptions,
+  GitCommitDetails,
+  GitTag,
+  GitTagOptions,
+  GitOperationResult,
+  GitMergeOptions,
+  GitMergeResult,
+  GitConflict,
+  GitRestoreOptions,
+  GitResetOptions,
+  GitStashOptions,
+  GitStashEntry,
+  GitCleanOptions,
+  GitCleanResult,
+  GitRemote,
+  GitCredentials,
+  GitConfigOptions,
+  OpenPullRequestOptions,
+  PullRequest,
+  PullRequestRepository,
 } from '../types';
+import { ValidationError } from '../errors';
+import { createPullRequestProvider } from '../pull-requests';
+import { parseUnifiedDiff } from '../utils/diff';
+import { parseGitRemoteUrl } from '../utils/git-remote';
+
+/**
+ * Git config resource class
+ */
+export class GitConfigResource {
+  constructor(
+    private readonly environmentId: string,
+    private readonly http: HttpClient
+  ) {}
+
+  /**
+   * Set a config value
+   *
+   * @param key - Config key (e.g. "user.name")
+   * @param value - Config value
+   * @param options - Config options
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.config.set('user.name', 'Release Bot');
+   * await sandbox.git.config.set('user.email', 'bot@example.com');
+   * ```
+   */
+  async set(key: string, value: string, options?: GitConfigOptions): Promise<void> {
+    await this.http.put(
+      `/api/v1/environments/${this.environmentId}/git/config`,
+      {
+        key,
+        value,
+        scope: options?.scope || 'local',
+      }
+    );
+  }
+
+  /**
+   * Get a config value
+   *
+   * @param key - Config key
+   * @param options - Config options
+   * @returns Config value, or null if not set
+   *
+   * @example
+   * ```typescript
+   * const email = await sandbox.git.config.get('user.email');
+   * ```
+   */
+  async get(key: string, options?: GitConfigOptions): Promise<string | null> {
+    const response = await this.http.get<{ value: string | null }>(
+      `/api/v1/environments/${this.environmentId}/git/config`,
+      {
+        params: {
+          key,
+          scope: options?.scope || 'local',
+        },
+      }
+    );
+    return response.value;
+  }
+}
 
 /**
  * Git operations resource class
  */
 export class GitResource {
+  /** Git config management */
+  public readonly config: GitConfigResource;
+
   constructor(
     private readonly environmentId: string,
     private readonly http: HttpClient
-  ) {}
+  ) {
+    this.config = new GitConfigResource(environmentId, http);
+  }
 
   /**
    * Clone a git repository into the sandbox
@@ -185,7 +286,10 @@ export class GitResource {
   /**
    * Get git diff
    *
-   * @returns Git diff showing changes in each file
+   * Without options, returns unstaged working tree changes.
+   *
+   * @param options - Diff options
+   * @returns Git diff with parsed hunks for each file
    *
    * @example
    * ```typescript
@@ -193,11 +297,718 @@ export class GitResource {
    * diff.files.forEach(file => {
    *   console.log(`${file.path}: +${file.additions} -${file.deletions}`);
    * });
+   *
+   * // Line-level review of a branch
+   * const review = await sandbox.git.diff({ from: 'origin/main', to: 'HEAD', ignoreWhitespace: true });
+   * for (const file of review.files) {
+   *   for (const hunk of file.hunks) {
+   *     hunk.lines
+   *       .filter(line => line.type === 'add')
+   *       .forEach(line => console.log(`${file.path}:${line.newLineNumber} ${line.content}`));
+   *   }
+   * }
+   * ```
+   */
+  async diff(options?: GitDiffOptions): Promise<GitDiff> {
+    const params = this.diffParams(options);
+    if (options?.contextLines !== undefined) {
+      params.contextLines = options.contextLines;
+    }
+
+    const response = await this.http.get<GitDiff>(
+      `/api/v1/environments/${this.environmentId}/git/diff`,
+      { params }
+    );
+    return { files: response.files.map(parseDiffFile) };
+  }
+
+  /**
+   * Get per-file change counts without diff content
+   *
+   * @param options - Diff options
+   * @returns Changed files with addition/deletion counts and totals
+   *
+   * @example
+   * ```typescript
+   * const stat = await sandbox.git.diffStat({ from: 'v1.2.0', to: 'HEAD' });
+   * console.log(`${stat.filesChanged} files, +${stat.additions} -${stat.deletions}`);
+   * ```
+   */
+  async diffStat(options?: GitDiffStatOptions): Promise<GitDiffStat> {
+    return this.http.get<GitDiffStat>(
+      `/api/v1/environments/${this.environmentId}/git/diff/stat`,
+      { params: this.diffParams(options) }
+    );
+  }
+
+  /**
+   * List branches
+   *
+   * @param options - Branch listing options
+   * @returns Branches, with the checked-out branch marked as `current`
+   *
+   * @example
+   * ```typescript
+   * const branches = await sandbox.git.branches({ remote: true });
+   * const current = branches.find(b => b.current);
+   * console.log(`On ${current?.name} (${current?.commit})`);
+   * ```
+   */
+  async branches(options?: GitBranchesOptions): Promise<GitBranch[]> {
+    const response = await this.http.get<{ branches: GitBranch[] }>(
+      `/api/v1/environments/${this.environmentId}/git/branches`,
+      {
+        params: {
+          remote: options?.remote || false,
+        },
+      }
+    );
+    return response.branches;
+  }
+
+  /**
+   * Delete a local branch
+   *
+   * @param name - Branch name
+   * @param options - Delete options
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.deleteBranch('feature/old');
+   * await sandbox.git.deleteBranch('experiment', { force: true });
+   * ```
+   */
+  async deleteBranch(name: string, options?: GitDeleteBranchOptions): Promise<void> {
+    await this.http.delete(
+      `/api/v1/environments/${this.environmentId}/git/branches/${encodeURIComponent(name)}`,
+      {
+        params: {
+          force: options?.force || false,
+        },
+      }
+    );
+  }
+
+  /**
+   * Get commit history
+   *
+   * @param options - Log options
+   * @returns Commits, newest first
+   *
+   * @example
+   * ```typescript
+   * // Changelog since the last release
+   * const commits = await sandbox.git.log({ ref: 'v1.2.0..HEAD' });
+   * commits.forEach(c => console.log(`- ${c.subject} (${c.shortSha})`));
+   *
+   * // Recent changes to a single file
+   * await sandbox.git.log({ path: 'src/auth.ts', limit: 5, since: '2 weeks ago' });
+   * ```
+   */
+  async log(options?: GitLogOptions): Promise<GitCommit[]> {
+    const toParam = (value: string | Date) =>
+      value instanceof Date ? value.toISOString() : value;
+
+    const params: Record<string, string | number | boolean> = {
+      limit: options?.limit ?? 50,
+    };
+    if (options?.ref) {
+      params.ref = options.ref;
+    }
+    if (options?.path) {
+      params.path = options.path;
+    }
+    if (options?.since) {
+      params.since = toParam(options.since);
+    }
+    if (options?.until) {
+      params.until = toParam(options.until);
+    }
+
+    const response = await this.http.get<{ commits: GitCommit[] }>(
+      `/api/v1/environments/${this.environmentId}/git/log`,
+      { params }
+    );
+    return response.commits;
+  }
+
+  /**
+   * Show a commit with the files it changed
+   *
+   * @param ref - Commit hash, branch or tag (default: HEAD)
+   * @returns Commit details
+   *
+   * @example
+   * ```typescript
+   * const commit = await sandbox.git.show('HEAD~1');
+   * console.log(`${commit.author.name}: ${commit.subject}`);
+   * commit.files.forEach(f => console.log(`  ${f.path} +${f.additions} -${f.deletions}`));
+   * ```
+   */
+  async show(ref: string = 'HEAD'): Promise<GitCommitDetails> {
+    const commit = await this.http.get<GitCommitDetails>(
+      `/api/v1/environments/${this.environmentId}/git/show`,
+      { params: { ref } }
+    );
+    return { ...commit, files: commit.files.map(parseDiffFile) };
+  }
+
+  /**
+   * Create a tag
+   *
+   * @param name - Tag name
+   * @param options - Tag options
+   * @returns Created tag
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.tag('v1.3.0', { message: 'Release 1.3.0' });
+   * await sandbox.git.push({ remote: 'origin', branch: 'v1.3.0' });
+   * ```
+   */
+  async tag(name: string, options?: GitTagOptions): Promise<GitTag> {
+    return this.http.post<GitTag>(
+      `/api/v1/environments/${this.environmentId}/git/tags`,
+      {
+        name,
+        ref: options?.ref,
+        message: options?.message,
+        force: options?.force || false,
+      }
+    );
+  }
+
+  /**
+   * List tags
+   *
+   * @returns Tags
+   *
+   * @example
+   * ```typescript
+   * const tags = await sandbox.git.tags();
+   * console.log(tags.map(t => t.name).join(', '));
+   * ```
+   */
+  async tags(): Promise<GitTag[]> {
+    const response = await this.http.get<{ tags: GitTag[] }>(
+      `/api/v1/environments/${this.environmentId}/git/tags`
+    );
+    return response.tags;
+  }
+
+  /**
+   * Resolve a ref to a full commit hash
+   *
+   * @param ref - Branch, tag or revision expression (e.g. "HEAD~2")
+   * @returns Full commit hash
+   *
+   * @example
+   * ```typescript
+   * const head = await sandbox.git.revParse('HEAD');
+   * if (head !== expectedSha) {
+   *   throw new Error(`Unexpected head commit ${head}`);
+   * }
+   * ```
+   */
+  async revParse(ref: string): Promise<string> {
+    const response = await this.http.get<{ sha: string }>(
+      `/api/v1/environments/${this.environmentId}/git/rev-parse`,
+      { params: { ref } }
+    );
+    return response.sha;
+  }
+
+  /**
+   * Merge a branch or commit into the current branch
+   *
+   * Conflicts do not throw: the result has `success: false` and lists the
+   * conflicted paths. Resolve them with `conflicts()` and `resolve()`, then
+   * call `continue()`, or call `abort()`.
+   *
+   * @param ref - Branch, tag or commit to merge
+   * @param options - Merge options
+   * @returns Merge result
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.git.merge('origin/main');
+   * if (!result.success) {
+   *   console.log(`Conflicts in: ${result.conflicts.join(', ')}`);
+   * }
+   * ```
+   */
+  async merge(ref: string, options?: GitMergeOptions): Promise<GitMergeResult> {
+    return this.http.post<GitMergeResult>(
+      `/api/v1/environments/${this.environmentId}/git/merge`,
+      {
+        ref,
+        noFastForward: options?.noFastForward || false,
+        message: options?.message,
+      }
+    );
+  }
+
+  /**
+   * Rebase the current branch onto another ref
+   *
+   * Stops on the first conflicting commit with `success: false`.
+   *
+   * @param onto - Branch, tag or commit to rebase onto
+   * @returns Rebase result
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.pull({ remote: 'origin', branch: 'main' });
+   * const result = await sandbox.git.rebase('origin/main');
+   * ```
+   */
+  async rebase(onto: string): Promise<GitOperationResult> {
+    return this.http.post<GitOperationResult>(
+      `/api/v1/environments/${this.environmentId}/git/rebase`,
+      { onto }
+    );
+  }
+
+  /**
+   * Apply a commit on top of the current branch
+   *
+   * @param sha - Commit to cherry-pick
+   * @returns Cherry-pick result
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.checkout('release/1.x');
+   * await sandbox.git.cherryPick('a1b2c3d');
+   * ```
+   */
+  async cherryPick(sha: string): Promise<GitOperationResult> {
+    return this.http.post<GitOperationResult>(
+      `/api/v1/environments/${this.environmentId}/git/cherry-pick`,
+      { sha }
+    );
+  }
+
+  /**
+   * Abort the merge, rebase or cherry-pick in progress
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.git.rebase('origin/main');
+   * if (!result.success) {
+   *   await sandbox.git.abort();
+   * }
+   * ```
+   */
+  async abort(): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/abort`
+    );
+  }
+
+  /**
+   * Continue the merge, rebase or cherry-pick in progress
+   *
+   * All conflicts must be resolved first. A rebase may stop again on a
+   * later commit, in which case the result has `success: false`.
+   *
+   * @returns Operation result
+   */
+  async continue(): Promise<GitOperationResult> {
+    return this.http.post<GitOperationResult>(
+      `/api/v1/environments/${this.environmentId}/git/continue`
+    );
+  }
+
+  /**
+   * Get unresolved conflicts with the content of each side
+   *
+   * @returns Conflicted files
+   *
+   * @example
+   * ```typescript
+   * const result = await sandbox.git.rebase('origin/main');
+   * if (!result.success) {
+   *   for (const conflict of await sandbox.git.conflicts()) {
+   *     if (conflict.path === 'package-lock.json') {
+   *       await sandbox.git.resolve(conflict.path, conflict.theirs ?? '');
+   *     }
+   *   }
+   *   await sandbox.git.continue();
+   * }
+   * ```
+   */
+  async conflicts(): Promise<GitConflict[]> {
+    const response = await this.http.get<{ conflicts: GitConflict[] }>(
+      `/api/v1/environments/${this.environmentId}/git/conflicts`
+    );
+    return response.conflicts;
+  }
+
+  /**
+   * Mark a conflicted file as resolved
+   *
+   * @param path - Conflicted file path
+   * @param content - Resolved content (if omitted, the file is staged as it is on disk)
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.resolve('src/config.ts', mergedContent);
+   * ```
+   */
+  async resolve(path: string, content?: string): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/resolve`,
+      {
+        path,
+        content,
+      }
+    );
+  }
+
+  /**
+   * Stage files
+   *
+   * @param paths - Paths to stage (default: all changes)
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.add(['src/auth.ts', 'tests/auth.test.ts']);
+   * await sandbox.git.commit('Fix authentication bug');
+   * ```
+   */
+  async add(paths: string[] = ['.']): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/add`,
+      { paths }
+    );
+  }
+
+  /**
+   * Discard working tree changes or unstage files
+   *
+   * @param paths - Paths to restore
+   * @param options - Restore options
+   *
+   * @example
+   * ```typescript
+   * // Unstage
+   * await sandbox.git.restore(['src/debug.ts'], { staged: true });
+   *
+   * // Discard local edits
+   * await sandbox.git.restore(['src/debug.ts']);
+   * ```
+   */
+  async restore(paths: string[], options?: GitRestoreOptions): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/restore`,
+      {
+        paths,
+        staged: options?.staged || false,
+        source: options?.source,
+      }
+    );
+  }
+
+  /**
+   * Reset the current branch to a ref
+   *
+   * @param ref - Target commit or ref (default: HEAD)
+   * @param options - Reset options
+   *
+   * @example
+   * ```typescript
+   * // Throw away a failed attempt
+   * await sandbox.git.reset('HEAD', { mode: 'hard' });
+   * await sandbox.git.clean();
+   *
+   * // Undo the last commit but keep its changes staged
+   * await sandbox.git.reset('HEAD~1', { mode: 'soft' });
+   * ```
+   */
+  async reset(ref: string = 'HEAD', options?: GitResetOptions): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/reset`,
+      {
+        ref,
+        mode: options?.mode || 'mixed',
+      }
+    );
+  }
+
+  /**
+   * Stash working tree changes
+   *
+   * @param options - Stash options
+   * @returns Created stash entry, or null if there was nothing to stash
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.stash({ message: 'wip', includeUntracked: true });
+   * await sandbox.git.pull();
+   * await sandbox.git.stashPop();
+   * ```
+   */
+  async stash(options?: GitStashOptions): Promise<GitStashEntry | null> {
+    const response = await this.http.post<{ stash: GitStashEntry | null }>(
+      `/api/v1/environments/${this.environmentId}/git/stash`,
+      {
+        message: options?.message,
+        includeUntracked: options?.includeUntracked || false,
+      }
+    );
+    return response.stash;
+  }
+
+  /**
+   * Apply a stash entry and remove it from the stash list
+   *
+   * Conflicts do not throw: the result has `success: false` and the entry
+   * is kept in the stash list.
+   *
+   * @param index - Stash index (default: 0, the most recent)
+   * @returns Operation result
+   */
+  async stashPop(index: number = 0): Promise<GitOperationResult> {
+    return this.http.post<GitOperationResult>(
+      `/api/v1/environments/${this.environmentId}/git/stash/pop`,
+      { index }
+    );
+  }
+
+  /**
+   * List stash entries
+   *
+   * @returns Stash entries, most recent first
+   */
+  async stashList(): Promise<GitStashEntry[]> {
+    const response = await this.http.get<{ stashes: GitStashEntry[] }>(
+      `/api/v1/environments/${this.environmentId}/git/stash`
+    );
+    return response.stashes;
+  }
+
+  /**
+   * Remove untracked files from the working tree
+   *
+   * @param options - Clean options
+   * @returns Removed paths
+   *
+   * @example
+   * ```typescript
+   * const { removed } = await sandbox.git.clean({ dryRun: true });
+   * console.log(`Would remove: ${removed.join(', ')}`);
+   * ```
+   */
+  async clean(options?: GitCleanOptions): Promise<GitCleanResult> {
+    return this.http.post<GitCleanResult>(
+      `/api/v1/environments/${this.environmentId}/git/clean`,
+      {
+        directories: options?.directories ?? true,
+        ignored: options?.ignored || false,
+        dryRun: options?.dryRun || false,
+      }
+    );
+  }
+
+  /**
+   * List remotes
+   *
+   * @returns Configured remotes
+   *
+   * @example
+   * ```typescript
+   * const remotes = await sandbox.git.remotes();
+   * const origin = remotes.find(r => r.name === 'origin');
+   * ```
+   */
+  async remotes(): Promise<GitRemote[]> {
+    const response = await this.http.get<{ remotes: GitRemote[] }>(
+      `/api/v1/environments/${this.environmentId}/git/remotes`
+    );
+    return response.remotes;
+  }
+
+  /**
+   * Add a remote
+   *
+   * @param name - Remote name
+   * @param url - Remote URL
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.addRemote('fork', 'https://github.com/contributor/repo.git');
+   * await sandbox.git.push({ remote: 'fork', branch: 'fix/typo' });
+   * ```
+   */
+  async addRemote(name: string, url: string): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/git/remotes`,
+      {
+        name,
+        url,
+      }
+    );
+  }
+
+  /**
+   * Remove a remote
+   *
+   * @param name - Remote name
+   */
+  async removeRemote(name: string): Promise<void> {
+    await this.http.delete(
+      `/api/v1/environments/${this.environmentId}/git/remotes/${encodeURIComponent(name)}`
+    );
+  }
+
+  /**
+   * Store credentials for a host
+   *
+   * Subsequent fetch, pull and push operations against the host use these
+   * credentials, regardless of how the repository was cloned. Setting
+   * credentials for a host again replaces the previous ones.
+   *
+   * @param credentials - Host and auth configuration
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.setCredentials({
+   *   host: 'github.com',
+   *   auth: { type: 'token', token: process.env.GITHUB_TOKEN! }
+   * });
+   * await sandbox.git.push({ remote: 'fork' });
    * ```
    */
-  async diff(): Promise<GitDiff> {
-    return this.http.get<GitDiff>(
-      `/api/v1/environments/${this.environmentId}/git/diff`
+  async setCredentials(credentials: GitCredentials): Promise<void> {
+    await this.http.put(
+      `/api/v1/environments/${this.environmentId}/git/credentials`,
+      credentials
     );
   }
+
+  /**
+   * Open a pull request for pushed changes
+   *
+   * The repository is derived from the remote URL and the head branch
+   * defaults to the current branch, so this is typically called right after
+   * `push()`.
+   *
+   * @param options - Pull request options
+   * @returns Created pull request
+   * @throws ValidationError if the repository cannot be determined or a token is missing
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.checkout('fix/typo', { create: true });
+   * await sandbox.git.commit('Fix typo', { all: true });
+   * await sandbox.git.push({ branch: 'fix/typo' });
+   *
+   * const pr = await sandbox.git.openPullRequest({
+   *   provider: 'github',
+   *   token: process.env.GITHUB_TOKEN,
+   *   base: 'main',
+   *   title: 'Fix typo',
+   *   body: 'Found by the docs agent',
+   * });
+   * console.log(pr.url);
+   *
+   * // From a fork: push to the fork (origin), open the PR on the upstream
+   * // repository, and qualify the head branch with the fork owner (GitHub)
+   * await sandbox.git.openPullRequest({
+   *   provider: 'github',
+   *   token: process.env.GITHUB_TOKEN,
+   *   remote: 'upstream',
+   *   head: 'contributor:fix/typo',
+   *   base: 'main',
+   *   title: 'Fix typo',
+   * });
+   * ```
+   */
+  async openPullRequest(options: OpenPullRequestOptions): Promise<PullRequest> {
+    let provider = options.provider;
+    if (typeof provider === 'string') {
+      if (!options.token) {
+        throw new ValidationError(`A token is required for the ${provider} provider`, {
+          token: 'is required',
+        });
+      }
+      provider = createPullRequestProvider(provider, {
+        token: options.token,
+        baseUrl: options.baseUrl,
+      });
+    }
+
+    const repository = options.repository || await this.resolveRepository(options.remote || 'origin');
+    const head = options.head || (await this.status()).branch;
+
+    return provider.createPullRequest({
+      repository,
+      base: options.base,
+      head,
+      title: options.title,
+      body: options.body,
+      draft: options.draft,
+    });
+  }
+
+  /**
+   * Determine the hosting repository from a remote's URL
+   */
+  private async resolveRepository(remoteName: string): Promise<PullRequestRepository> {
+    const remote = (await this.remotes()).find((r) => r.name === remoteName);
+    if (!remote) {
+      throw new ValidationError(`Remote "${remoteName}" not found`, {
+        remote: 'not found',
+      });
+    }
+
+    const repository = parseGitRemoteUrl(remote.pushUrl || remote.fetchUrl);
+    if (!repository) {
+      throw new ValidationError(`Cannot determine repository from remote URL: ${remote.pushUrl || remote.fetchUrl}`, {
+        remote: 'unrecognized URL',
+      });
+    }
+
+    return repository;
+  }
+
+  /**
+   * Build query parameters shared by diff() and diffStat()
+   */
+  private diffParams(options?: GitDiffStatOptions): Record<string, string | number | boolean> {
+    const params: Record<string, string | number | boolean> = {};
+    if (options?.from) {
+      params.from = options.from;
+    }
+    if (options?.to) {
+      params.to = options.to;
+    }
+    if (options?.staged) {
+      params.staged = true;
+    }
+    if (options?.paths?.length) {
+      // JSON keeps paths containing "," unambiguous
+      params.paths = JSON.stringify(options.paths);
+    }
+    if (options?.ignoreWhitespace) {
+      params.ignoreWhitespace = true;
+    }
+    return params;
+  }
+}
+
+/**
+ * Parse a file's raw diff into hunks and detect renames
+ */
+function parseDiffFile(file: GitDiffFile): GitDiffFile {
+  const [patch] = parseUnifiedDiff(file.diff || '');
+  const parsed: GitDiffFile = { ...file, hunks: patch?.hunks ?? [] };
+
+  // Older servers report renames as modifications; the diff header still has both paths
+  if (patch?.oldPath && patch.newPath && patch.oldPath !== patch.newPath) {
+    parsed.status = 'renamed';
+    parsed.oldPath = file.oldPath ?? patch.oldPath;
+  }
+
+  return parsed;
 }
@@ -2,9 +2,13 @@
  * Resource exports
  */
 
-export { GitResource } from './git';
+export { GitResource, GitConfigResource } from './git';
 export { FilesResource } from './files';
-export { ExecutionResource } from './execution';
+export { ExecutionResource, ExecutionStream } from './execution';
 export { EnvironmentVariablesResource } from './environment-variables';
+export { LogsResource } from './logs';
+export { TerminalResource, TerminalSession } from './terminal';
+export { ProcessesResource } from './processes';
 export { Sandbox, SandboxesResource } from './sandboxes';
+export { SnapshotsResource } from './snapshots';
 export { ApiKeysResource } from './api-keys';
@@ -0,0 +1,141 @@
+/**
+ * Log streaming resource
+ *
+ * Provides real-time access to sandbox container logs over WebSocket:
+ * - Subscribe with a callback
+ * - Consume as an async iterator
+ */
+
+import type { WebSocketClient } from '../utils/websocket';
+import type {
+  LogEntry,
+  LogLevel,
+  LogSubscription,
+  LogSubscriptionOptions,
+} from '../types';
+import { VibeBoxError } from '../errors';
+import { AsyncQueue } from '../utils/async-queue';
+
+/**
+ * Log levels ordered by severity
+ */
+const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Log streaming resource class
+ */
+export class LogsResource {
+  constructor(
+    private readonly environmentId: string,
+    private readonly ws: WebSocketClient
+  ) {}
+
+  /**
+   * Subscribe to container logs
+   *
+   * The connection is re-established automatically with exponential backoff
+   * if it drops, until `unsubscribe()` is called.
+   *
+   * @param callback - Called for every log entry
+   * @param options - Subscription options
+   * @returns Subscription handle
+   *
+   * @example
+   * ```typescript
+   * const subscription = sandbox.logs.subscribe(
+   *   (entry) => console.log(`[${entry.level}] ${entry.text}`),
+   *   { filter: 'stderr', level: 'warn' }
+   * );
+   *
+   * // Later
+   * subscription.unsubscribe();
+   * ```
+   */
+  subscribe(
+    callback: (entry: LogEntry) => void,
+    options?: LogSubscriptionOptions
+  ): LogSubscription {
+    return this.connect(callback, options);
+  }
+
+  /**
+   * Stream container logs as an async iterator
+   *
+   * Breaking out of the loop closes the connection.
+   *
+   * @param options - Subscription options
+   * @returns Async iterator of log entries
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of sandbox.logs.stream({ level: 'error' })) {
+   *   console.error(entry.text);
+   *   if (entry.text.includes('ready')) break;
+   * }
+   * ```
+   */
+  stream(options?: LogSubscriptionOptions): AsyncIterableIterator<LogEntry> {
+    let subscription: LogSubscription | null = null;
+    const queue = new AsyncQueue<LogEntry>(() => subscription?.unsubscribe());
+
+    subscription = this.connect((entry) => queue.push(entry), options, (code) => {
+      if (code === 1000) {
+        queue.end();
+      } else {
+        queue.fail(new VibeBoxError(`Log stream closed unexpectedly (code ${code})`));
+      }
+    });
+
+    return queue;
+  }
+
+  /**
+   * Open the log socket and apply client-side filtering
+   */
+  private connect(
+    callback: (entry: LogEntry) => void,
+    options?: LogSubscriptionOptions,
+    onClose?: (code: number) => void
+  ): LogSubscription {
+    const params: Record<string, string> = {};
+    if (options?.filter) {
+      params.filter = options.filter;
+    }
+    if (options?.level) {
+      params.level = options.level;
+    }
+
+    const minSeverity = options?.level ? LOG_LEVEL_SEVERITY[options.level] : 0;
+
+    const connection = this.ws.connect<LogEntry>(
+      `/api/v1/environments/${this.environmentId}/logs/stream`,
+      {
+        onMessage: (entry) => {
+          // The server filters too; this guards against older servers ignoring the params
+          if (options?.filter && entry.stream !== options.filter) {
+            return;
+          }
+          if (LOG_LEVEL_SEVERITY[entry.level] < minSeverity) {
+            return;
+          }
+          callback(entry);
+        },
+        onError: options?.onError,
+        onClose: onClose && ((code) => onClose(code)),
+      },
+      {
+        params,
+        reconnect: options?.reconnect !== false,
+      }
+    );
+
+    return {
+      unsubscribe: () => connection.close(),
+    };
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Background process resource
+ *
+ * Provides methods for managing long-running processes within a sandbox:
+ * - Start processes in the background
+ * - List and inspect processes
+ * - Send signals
+ * - Wait for completion
+ * - Read and follow process output
+ */
+
+import type { HttpClient } from '../utils/http-client';
+import type { WebSocketClient } from '../utils/websocket';
+import type {
+  Process,
+  ProcessSignal,
+  StartProcessOptions,
+  WaitProcessOptions,
+  ProcessLogs,
+  ProcessLogsOptions,
+  LogEntry,
+  LogSubscription,
+  LogSubscriptionOptions,
+} from '../types';
+import { TimeoutError } from '../errors';
+import { sleep } from '../utils/retry';
+
+/**
+ * Background process resource class
+ */
+export class ProcessesResource {
+  constructor(
+    private readonly environmentId: string,
+    private readonly http: HttpClient,
+    private readonly ws: WebSocketClient
+  ) {}
+
+  /**
+   * Start a command in the background
+   *
+   * @param command - Shell command to run
+   * @param options - Process options
+   * @returns Started process
+   *
+   * @example
+   * ```typescript
+   * const server = await sandbox.processes.start('npm run dev', {
+   *   cwd: '/workspace/app',
+   *   env: { PORT: '3000' }
+   * });
+   * console.log(`Dev server running as PID ${server.pid}`);
+   * ```
+   */
+  async start(command: string, options?: StartProcessOptions): Promise<Process> {
+    return this.http.post<Process>(
+      `/api/v1/environments/${this.environmentId}/processes`,
+      {
+        command,
+        cwd: options?.cwd,
+        env: options?.env,
+      }
+    );
+  }
+
+  /**
+   * List processes started in this sandbox
+   *
+   * @returns Array of processes
+   *
+   * @example
+   * ```typescript
+   * const processes = await sandbox.processes.list();
+   * processes
+   *   .filter(p => p.status === 'running')
+   *   .forEach(p => console.log(`${p.pid}: ${p.command}`));
+   * ```
+   */
+  async list(): Promise<Process[]> {
+    return this.http.get<Process[]>(
+      `/api/v1/environments/${this.environmentId}/processes`
+    );
+  }
+
+  /**
+   * Get process details by PID
+   *
+   * @param pid - Process ID
+   * @returns Process details
+   *
+   * @example
+   * ```typescript
+   * const proc = await sandbox.processes.get(1234);
+   * console.log(`Status: ${proc.status}`);
+   * ```
+   */
+  async get(pid: number): Promise<Process> {
+    return this.http.get<Process>(
+      `/api/v1/environments/${this.environmentId}/processes/${pid}`
+    );
+  }
+
+  /**
+   * Send a signal to a process
+   *
+   * @param pid - Process ID
+   * @param signal - Signal to send (default: SIGTERM)
+   *
+   * @example
+   * ```typescript
+   * await sandbox.processes.kill(server.pid);
+   * await sandbox.processes.kill(server.pid, 'SIGKILL');
+   * ```
+   */
+  async kill(pid: number, signal: ProcessSignal = 'SIGTERM'): Promise<void> {
+    await this.http.post(
+      `/api/v1/environments/${this.environmentId}/processes/${pid}/signal`,
+      { signal }
+    );
+  }
+
+  /**
+   * Wait for a process to finish
+   *
+   * @param pid - Process ID
+   * @param options - Wait options
+   * @returns Final process state
+   * @throws TimeoutError if the process is still running after `timeout`
+   *
+   * @example
+   * ```typescript
+   * const build = await sandbox.processes.start('npm run build');
+   * const result = await sandbox.processes.wait(build.pid, { timeout: 300000 });
+   * console.log(`Build exited with ${result.exitCode}`);
+   * ```
+   */
+  async wait(pid: number, options?: WaitProcessOptions): Promise<Process> {
+    const interval = options?.interval ?? 1000;
+    const deadline = options?.timeout ? Date.now() + options.timeout : Infinity;
+
+    for (;;) {
+      const proc = await this.get(pid);
+      if (proc.status !== 'pending' && proc.status !== 'running') {
+        return proc;
+      }
+
+      if (Date.now() + interval > deadline) {
+        throw new TimeoutError(
+          `Process ${pid} did not exit within ${options?.timeout}ms`,
+          options?.timeout as number
+        );
+      }
+
+      await sleep(interval);
+    }
+  }
+
+  /**
+   * Get buffered output of a process
+   *
+   * @param pid - Process ID
+   * @param options - Log options
+   * @returns Process stdout and stderr
+   *
+   * @example
+   * ```typescript
+   * const { stdout } = await sandbox.processes.logs(server.pid, { tail: 50 });
+   * ```
+   */
+  async logs(pid: number, options?: ProcessLogsOptions): Promise<ProcessLogs> {
+    return this.http.get<ProcessLogs>(
+      `/api/v1/environments/${this.environmentId}/processes/${pid}/logs`,
+      {
+        params: options?.tail !== undefined ? { tail: options.tail } : undefined,
+      }
+    );
+  }
+
+  /**
+   * Follow the output of a process in real time
+   *
+   * @param pid - Process ID
+   * @param callback - Called for every output line
+   * @param options - Subscription options
+   * @returns Subscription handle
+   *
+   * @example
+   * ```typescript
+   * const subscription = sandbox.processes.follow(server.pid, (entry) => {
+   *   if (entry.text.includes('ready on port')) {
+   *     console.log('Server is up');
+   *   }
+   * });
+   *
+   * subscription.unsubscribe();
+   * ```
+   */
+  follow(
+    pid: number,
+    callback: (entry: LogEntry) => void,
+    options?: Pick<LogSubscriptionOptions, 'filter' | 'reconnect' | 'onError'>
+  ): LogSubscription {
+    const connection = this.ws.connect<LogEntry>(
+      `/api/v1/environments/${this.environmentId}/processes/${pid}/logs/stream`,
+      {
+        onMessage: (entry) => {
+          if (options?.filter && entry.stream !== options.filter) {
+            return;
+          }
+          callback(entry);
+        },
+        onError: options?.onError,
+      },
+      {
+        params: options?.filter ? { filter: options.filter } : undefined,
+        reconnect: options?.reconnect !== false,
+      }
+    );
+
+    return {
+      unsubscribe: () => connection.close(),
+    };
+  }
+}
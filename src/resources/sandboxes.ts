@@ -5,12 +5,47 @@
  */
 
 import type { HttpClient } from '../utils/http-client';
-import type { VibeBoxConfig, Environment, CreateSandboxOptions, EnvironmentStatus } from '../types';
+import type {
+  VibeBoxConfig,
+  Environment,
+  CreateSandboxOptions,
+  EnvironmentStatus,
+  ExecutionOptions,
+  ExecutionResult,
+  WaitOptions,
+  Snapshot,
+  CreateSnapshotOptions,
+  ForkSandboxOptions,
+  ResetSandboxOptions,
+  ListSandboxesOptions,
+  PaginatedResponse,
+} from '../types';
 import { GitResource } from './git';
 import { FilesResource } from './files';
 import { ExecutionResource } from './execution';
 import { EnvironmentVariablesResource } from './environment-variables';
+import { LogsResource } from './logs';
+import { TerminalResource } from './terminal';
+import { ProcessesResource } from './processes';
+import { WebSocketClient } from '../utils/websocket';
 import { generateSandboxName, slugify } from '../utils/validation';
+import { sleep } from '../utils/retry';
+import { SandboxStateError, TimeoutError, ValidationError, isRetryableError } from '../errors';
+
+/**
+ * Default maximum wait for status changes
+ */
+const DEFAULT_WAIT_TIMEOUT = 120000;
+
+/**
+ * Default polling interval for status changes
+ */
+const DEFAULT_WAIT_INTERVAL = 1000;
+
+/**
+ * Statuses a sandbox cannot leave on its own
+ */
+const TERMINAL_STATUSES: EnvironmentStatus[] = ['error', 'destroyed'];
 
 /**
  * Sandbox instance
@@ -21,30 +56,40 @@ export class Sandbox {
   public readonly id: string;
   public readonly name: string;
   public status: EnvironmentStatus;
+  public labels: Record<string, string>;
 
   // Nested resource accessors
   public readonly git: GitResource;
   public readonly files: FilesResource;
   public readonly execution: ExecutionResource;
   public readonly env: EnvironmentVariablesResource;
+  public readonly logs: LogsResource;
+  public readonly terminal: TerminalResource;
+  public readonly processes: ProcessesResource;
 
   private data: Environment;
+  private readonly ws: WebSocketClient;
 
   constructor(
     data: Environment,
     private readonly http: HttpClient,
-    _config: Required<VibeBoxConfig>
+    private readonly config: Required<VibeBoxConfig>
   ) {
     this.data = data;
     this.id = data.id;
     this.name = data.name;
     this.status = data.status;
+    this.labels = data.labels || {};
+    this.ws = new WebSocketClient(config, http);
 
     // Initialize nested resources
     this.git = new GitResource(this.id, this.http);
-    this.files = new FilesResource(this.id, this.http);
-    this.execution = new ExecutionResource(this.id, this.http);
+    this.files = new FilesResource(this.id, this.http, this.ws);
+    this.execution = new ExecutionResource(this.id, this.http, this.ws);
     this.env = new EnvironmentVariablesResource(this.id, this.http);
+    this.logs = new LogsResource(this.id, this.ws);
+    this.terminal = new TerminalResource(this.id, this.ws);
+    this.processes = new ProcessesResource(this.id, this.http, this.ws);
   }
 
   /**
@@ -59,6 +104,118 @@ export class Sandbox {
   async refresh(): Promise<void> {
     this.data = await this.http.get(`/api/v1/environments/${this.id}`);
     this.status = this.data.status;
+    this.labels = this.data.labels || {};
+  }
+
+  /**
+   * Wait until the sandbox reaches a status or satisfies a predicate
+   *
+   * Polls the API until the condition holds. Fails fast if the sandbox
+   * lands in `error` or `destroyed` while waiting for something else.
+   *
+   * @param condition - Target status, or predicate evaluated after each refresh
+   * @param options - Wait options
+   * @throws SandboxStateError if the sandbox enters an unrecoverable status
+   * @throws TimeoutError if the condition does not hold within `timeout`
+   *
+   * @example
+   * ```typescript
+   * await sandbox.waitUntil('running', { timeout: 60000 });
+   *
+   * await sandbox.waitUntil((s) => s.status === 'stopped' || s.status === 'paused');
+   * ```
+   */
+  async waitUntil(
+    condition: EnvironmentStatus | ((sandbox: Sandbox) => boolean),
+    options?: WaitOptions
+  ): Promise<void> {
+    const timeout = options?.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    const interval = options?.interval ?? DEFAULT_WAIT_INTERVAL;
+    const deadline = Date.now() + timeout;
+    const matches = typeof condition === 'function'
+      ? condition
+      : (sandbox: Sandbox) => sandbox.status === condition;
+
+    for (;;) {
+      if (options?.signal?.aborted) {
+        throw options.signal.reason;
+      }
+
+      await this.refresh();
+      if (matches(this)) {
+        return;
+      }
+
+      if (TERMINAL_STATUSES.includes(this.status)) {
+        throw new SandboxStateError(
+          `Sandbox ${this.id} entered status "${this.status}" while waiting`,
+          this.id,
+          this.status
+        );
+      }
+
+      if (Date.now() + interval > deadline) {
+        throw new TimeoutError(
+          `Sandbox ${this.id} did not reach the expected state within ${timeout}ms (status: ${this.status})`,
+          timeout
+        );
+      }
+
+      await sleep(interval, options?.signal);
+    }
+  }
+
+  /**
+   * Wait until the sandbox is running and accepting executions
+   *
+   * Waits for the `running` status, then probes the container with a
+   * trivial command until it succeeds.
+   *
+   * @param options - Wait options
+   * @throws SandboxStateError if the sandbox enters an unrecoverable status
+   * @throws TimeoutError if the sandbox is not ready within `timeout`
+   *
+   * @example
+   * ```typescript
+   * await sandbox.start();
+   * await sandbox.waitUntilReady({ timeout: 90000 });
+   * await sandbox.run('npm test');
+   * ```
+   */
+  async waitUntilReady(options?: WaitOptions): Promise<void> {
+    const timeout = options?.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    const interval = options?.interval ?? DEFAULT_WAIT_INTERVAL;
+    const deadline = Date.now() + timeout;
+
+    await this.waitUntil('running', options);
+
+    for (;;) {
+      if (options?.signal?.aborted) {
+        throw options.signal.reason;
+      }
+
+      // Transient failures mean "not ready yet"; anything else (bad key, deleted sandbox) is fatal
+      const probe = await this.execution
+        .execute('true', { language: 'sh', timeout: 5000 })
+        .catch((error) => {
+          if (isRetryableError(error)) {
+            return null;
+          }
+          throw error;
+        });
+      if (probe && probe.exitCode === 0) {
+        return;
+      }
+
+      if (Date.now() + interval > deadline) {
+        throw new TimeoutError(
+          `Sandbox ${this.id} did not pass its health check within ${timeout}ms`,
+          timeout
+        );
+      }
+
+      await sleep(interval, options?.signal);
+    }
   }
 
   /**
@@ -126,6 +283,31 @@ export class Sandbox {
     await this.refresh();
   }
 
+  /**
+   * Reset the sandbox to its freshly created state
+   *
+   * Faster than destroying and re-creating: the container keeps running
+   * while files, environment variables and processes are cleaned up.
+   *
+   * @param options - What to reset (everything by default)
+   *
+   * @example
+   * ```typescript
+   * await sandbox.reset();
+   *
+   * // Keep files, only stop processes
+   * await sandbox.reset({ files: false, env: false });
+   * ```
+   */
+  async reset(options?: ResetSandboxOptions): Promise<void> {
+    await this.http.post(`/api/v1/environments/${this.id}/reset`, {
+      files: options?.files !== false,
+      env: options?.env !== false,
+      processes: options?.processes !== false,
+    });
+    await this.refresh();
+  }
+
   /**
    * Destroy the sandbox
    *
@@ -140,6 +322,99 @@ export class Sandbox {
     await this.http.delete(`/api/v1/environments/${this.id}`);
   }
 
+  /**
+   * Capture the sandbox filesystem as a snapshot
+   *
+   * @param options - Snapshot options
+   * @returns Created snapshot
+   *
+   * @example
+   * ```typescript
+   * await sandbox.git.clone('https://github.com/user/repo.git');
+   * await sandbox.run('npm install', { language: 'bash', cwd: '/workspace' });
+   * const snapshot = await sandbox.snapshot({ name: 'repo-warm' });
+   *
+   * // Boot new sandboxes from the warm state
+   * const copy = await vb.create({ fromSnapshot: snapshot.id });
+   * ```
+   */
+  async snapshot(options?: CreateSnapshotOptions): Promise<Snapshot> {
+    return this.http.post<Snapshot>(`/api/v1/environments/${this.id}/snapshots`, {
+      name: options?.name,
+      description: options?.description,
+    });
+  }
+
+  /**
+   * Fork the sandbox into independent copies
+   *
+   * Each copy starts with this sandbox's filesystem and environment
+   * variables. Changes in one copy do not affect the others. If any copy
+   * fails to start or become ready, all copies are destroyed and the first
+   * error is thrown.
+   *
+   * @param count - Number of copies to create
+   * @param overrides - Settings applied to every copy
+   * @returns Forked sandboxes
+   * @throws ValidationError if count is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * // Try three candidate patches in parallel from the same setup
+   * const forks = await sandbox.fork(3, { ephemeral: true });
+   * const results = await Promise.all(
+   *   forks.map((fork, i) => fork.run(`git apply /patches/${i}.diff && npm test`, { language: 'bash' }))
+   * );
+   * await vb.sandboxes.destroyAll(forks);
+   * ```
+   */
+  async fork(count: number, overrides?: ForkSandboxOptions): Promise<Sandbox[]> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new ValidationError(
+        `Invalid fork count: ${count}. Must be a positive integer.`,
+        { count: 'Must be a positive integer' }
+      );
+    }
+
+    const prefix = overrides?.name || `${this.name}-fork`;
+    const names = Array.from({ length: count }, (_, i) => `${prefix}-${i + 1}`);
+
+    const envs = await this.http.post<Environment[]>(`/api/v1/environments/${this.id}/fork`, {
+      count,
+      names,
+      slugs: names.map((name) => slugify(name)),
+      cpuLimit: overrides?.cpuLimit,
+      memoryLimit: overrides?.memoryLimit,
+      storageLimit: overrides?.storageLimit,
+      ephemeral: overrides?.ephemeral,
+      timeout: overrides?.timeout,
+      env: overrides?.env,
+      labels: overrides?.labels,
+    });
+
+    const forks = envs.map((env) => new Sandbox(env, this.http, this.config));
+
+    if (overrides?.autoStart !== false) {
+      const results = await Promise.allSettled(
+        forks.map(async (fork) => {
+          if (fork.status !== 'running') {
+            await fork.start();
+          }
+          await fork.waitUntilReady({ timeout: overrides?.readyTimeout });
+        })
+      );
+
+      // All or nothing: don't hand back a partial set or leave copies orphaned
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failure) {
+        await Promise.all(forks.map((fork) => fork.destroy().catch(() => undefined)));
+        throw failure.reason;
+      }
+    }
+
+    return forks;
+  }
+
   /**
    * Execute code (shorthand for sandbox.execution.execute)
    *
@@ -150,9 +425,15 @@ export class Sandbox {
    * ```typescript
    * const result = await sandbox.run('console.log("Hello!")');
    * console.log(result.stdout);
+   *
+   * const install = await sandbox.run('npm install', {
+   *   language: 'bash',
+   *   cwd: '/workspace/repo',
+   *   retries: 2
+   * });
    * ```
    */
-  async run(code: string, options?: any): Promise<any> {
+  async run(code: string, options?: ExecutionOptions): Promise<ExecutionResult> {
     return this.execution.execute(code, options);
   }
 
@@ -216,6 +497,13 @@ export class SandboxesResource {
    *   autoStart: true
    * });
    * ```
+   *
+   * When `autoStart` is enabled (the default) this resolves only once the
+   * sandbox is running and passes its health check. If it never gets
+   * there, the sandbox is destroyed before the error is thrown.
+   *
+   * @throws SandboxStateError if the sandbox fails to start
+   * @throws TimeoutError if the sandbox is not ready within `readyTimeout`
    */
   async create(options: CreateSandboxOptions): Promise<Sandbox> {
     const name = options.name || generateSandboxName();
@@ -232,6 +520,8 @@ export class SandboxesResource {
       ephemeral: options.ephemeral || false,
       timeout: options.timeout,
       git: options.git,
+      labels: options.labels,
+      snapshotId: options.fromSnapshot,
       // autoStart defaults to true
       ...(options.autoStart !== false && {}),
     });
@@ -239,8 +529,17 @@ export class SandboxesResource {
     const sandbox = new Sandbox(response, this.http, this.config);
 
     // Auto-start if requested (default true)
-    if (options.autoStart !== false && response.status !== 'running') {
-      await sandbox.start();
+    if (options.autoStart !== false) {
+      try {
+        if (response.status !== 'running') {
+          await sandbox.start();
+        }
+        await sandbox.waitUntilReady({ timeout: options.readyTimeout });
+      } catch (error) {
+        // The caller never receives the sandbox, so don't leave it running
+        await sandbox.destroy().catch(() => undefined);
+        throw error;
+      }
     }
 
     return sandbox;
@@ -292,8 +591,38 @@ export class SandboxesResource {
    * sandboxes.forEach(s => console.log(s.name));
    * ```
    */
-  async list(projectId?: string): Promise<Sandbox[]> {
-    const pid = projectId || this.config.defaultProjectId;
+  async list(projectId?: string): Promise<Sandbox[]>;
+
+  /**
+   * List one page of sandboxes matching filters
+   *
+   * @param options - Filter and pagination options
+   * @returns Page of sandboxes with the cursor for the next page
+   *
+   * @example
+   * ```typescript
+   * const page = await vb.sandboxes.list({
+   *   status: 'stopped',
+   *   labels: { 'ci-run': '1234' },
+   *   limit: 100
+   * });
+   * page.data.forEach(s => console.log(s.name));
+   *
+   * if (page.nextCursor) {
+   *   const next = await vb.sandboxes.list({ status: 'stopped', cursor: page.nextCursor });
+   * }
+   * ```
+   */
+  async list(options: ListSandboxesOptions): Promise<PaginatedResponse<Sandbox>>;
+
+  async list(
+    projectIdOrOptions?: string | ListSandboxesOptions
+  ): Promise<Sandbox[] | PaginatedResponse<Sandbox>> {
+    if (typeof projectIdOrOptions === 'object') {
+      return this.listPage(projectIdOrOptions);
+    }
+
+    const pid = projectIdOrOptions || this.config.defaultProjectId;
     if (!pid) {
       throw new Error('Project ID required. Provide via parameter or config.defaultProjectId');
     }
@@ -305,6 +634,73 @@ export class SandboxesResource {
     return envs.map((env) => new Sandbox(env, this.http, this.config));
   }
 
+  /**
+   * Iterate over all sandboxes matching filters, fetching pages on demand
+   *
+   * @param options - Filter options (`limit` sets the page size)
+   * @returns Async iterator of sandboxes
+   *
+   * @example
+   * ```typescript
+   * for await (const sandbox of vb.sandboxes.listAll({
+   *   status: 'stopped',
+   *   labels: { 'ci-run': '1234' }
+   * })) {
+   *   await sandbox.destroy();
+   * }
+   * ```
+   */
+  async *listAll(options?: Omit<ListSandboxesOptions, 'cursor'>): AsyncGenerator<Sandbox, void, undefined> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage({ ...options, cursor });
+      for (const sandbox of page.data) {
+        yield sandbox;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Fetch a single filtered page of sandboxes
+   */
+  private async listPage(options: ListSandboxesOptions): Promise<PaginatedResponse<Sandbox>> {
+    const params: Record<string, string | number> = {
+      limit: options.limit ?? 50,
+    };
+
+    const projectId = options.projectId || this.config.defaultProjectId;
+    if (projectId) {
+      params.projectId = projectId;
+    }
+    if (options.status) {
+      params.status = Array.isArray(options.status) ? options.status.join(',') : options.status;
+    }
+    if (options.labels && Object.keys(options.labels).length > 0) {
+      // JSON keeps keys and values containing "," or "=" unambiguous
+      params.labels = JSON.stringify(options.labels);
+    }
+    if (options.createdBefore) {
+      params.createdBefore = new Date(options.createdBefore).toISOString();
+    }
+    if (options.createdAfter) {
+      params.createdAfter = new Date(options.createdAfter).toISOString();
+    }
+    if (options.cursor) {
+      params.cursor = options.cursor;
+    }
+
+    const response = await this.http.get<PaginatedResponse<Environment>>('/api/v1/environments', {
+      params,
+    });
+
+    return {
+      data: response.data.map((env) => new Sandbox(env, this.http, this.config)),
+      nextCursor: response.nextCursor,
+    };
+  }
+
   /**
    * Delete all sandboxes
    *
@@ -0,0 +1,79 @@
+/**
+ * Snapshots resource
+ *
+ * Provides methods for managing sandbox snapshots:
+ * - List snapshots
+ * - Get snapshot details
+ * - Delete snapshots
+ *
+ * Snapshots are taken with `sandbox.snapshot()` and restored by passing
+ * `fromSnapshot` when creating a sandbox.
+ */
+
+import type { HttpClient } from '../utils/http-client';
+import type { Snapshot, ListSnapshotsOptions } from '../types';
+
+/**
+ * Snapshots resource class
+ */
+export class SnapshotsResource {
+  constructor(private readonly http: HttpClient) {}
+
+  /**
+   * List snapshots
+   *
+   * @param options - Filter options
+   * @returns Array of snapshots
+   *
+   * @example
+   * ```typescript
+   * const snapshots = await vb.snapshots.list();
+   *
+   * // Snapshots of a specific sandbox
+   * const snapshots = await vb.snapshots.list({ environmentId: sandbox.id });
+   * ```
+   */
+  async list(options?: ListSnapshotsOptions): Promise<Snapshot[]> {
+    const params: Record<string, string> = {};
+    if (options?.environmentId) {
+      params.environmentId = options.environmentId;
+    }
+    if (options?.projectId) {
+      params.projectId = options.projectId;
+    }
+
+    return this.http.get<Snapshot[]>('/api/v1/snapshots', { params });
+  }
+
+  /**
+   * Get snapshot details by ID
+   *
+   * @param snapshotId - Snapshot ID
+   * @returns Snapshot details
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await vb.snapshots.get('snap-id-123');
+   * console.log(`${snapshot.name}: ${snapshot.size} bytes`);
+   * ```
+   */
+  async get(snapshotId: string): Promise<Snapshot> {
+    return this.http.get<Snapshot>(`/api/v1/snapshots/${snapshotId}`);
+  }
+
+  /**
+   * Delete a snapshot
+   *
+   * Warning: This is irreversible!
+   *
+   * @param snapshotId - Snapshot ID
+   *
+   * @example
+   * ```typescript
+   * await vb.snapshots.delete('snap-id-123');
+   * ```
+   */
+  async delete(snapshotId: string): Promise<void> {
+    await this.http.delete(`/api/v1/snapshots/${snapshotId}`);
+  }
+}
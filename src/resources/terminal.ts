@@ -0,0 +1,236 @@
+/**
+ * Terminal resource
+ *
+ * Provides interactive PTY sessions inside a sandbox over WebSocket:
+ * - Open a shell with a given size
+ * - Write input and receive output
+ * - Resize and close the session
+ */
+
+import type { WebSocketClient, WebSocketConnection } from '../utils/websocket';
+import type {
+  TerminalOptions,
+  TerminalExitEvent,
+  TerminalServerMessage,
+  TerminalClientMessage,
+} from '../types';
+import { VibeBoxError } from '../errors';
+
+/**
+ * Interactive terminal session
+ */
+export class TerminalSession {
+  /** Current terminal width in columns */
+  public cols: number;
+
+  /** Current terminal height in rows */
+  public rows: number;
+
+  /** Resolves once the session is connected */
+  public readonly ready: Promise<void>;
+
+  private readonly connection: WebSocketConnection<TerminalServerMessage, TerminalClientMessage>;
+  private readonly dataListeners = new Set<(data: string) => void>();
+  private readonly exitListeners = new Set<(event: TerminalExitEvent) => void>();
+  private readonly errorListeners = new Set<(error: Error) => void>();
+  private exitEvent: TerminalExitEvent | null = null;
+
+  constructor(ws: WebSocketClient, environmentId: string, options?: TerminalOptions) {
+    this.cols = options?.cols || 80;
+    this.rows = options?.rows || 24;
+
+    const params: Record<string, string | number> = {
+      cols: this.cols,
+      rows: this.rows,
+    };
+    if (options?.shell) {
+      params.shell = options.shell;
+    }
+    if (options?.cwd) {
+      params.cwd = options.cwd;
+    }
+
+    let opened = false;
+    let resolveReady!: () => void;
+    let rejectReady!: (error: unknown) => void;
+    this.ready = new Promise((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    });
+
+    this.connection = ws.connect<TerminalServerMessage, TerminalClientMessage>(
+      `/api/v1/environments/${environmentId}/terminal`,
+      {
+        onOpen: () => {
+          // Env vars often hold secrets, so they travel in the first message
+          // rather than the URL (which proxies and access logs record)
+          this.connection.send({ type: 'init', env: options?.env || {} });
+          opened = true;
+          resolveReady();
+        },
+        onMessage: (message) => {
+          switch (message.type) {
+            case 'output':
+              this.dataListeners.forEach((listener) => listener(message.data));
+              break;
+            case 'exit':
+              this.emitExit({ exitCode: message.exitCode, signal: message.signal });
+              this.connection.close();
+              break;
+            case 'error':
+              this.emitError(new VibeBoxError(message.message));
+              break;
+          }
+        },
+        onError: (error) => {
+          if (!opened) {
+            rejectReady(error);
+          } else {
+            this.emitError(error);
+          }
+        },
+        onClose: (code) => {
+          if (!opened) {
+            rejectReady(new VibeBoxError(`Terminal connection closed (code ${code})`));
+          }
+          // Connection lost without an exit message
+          this.emitExit({ exitCode: -1 });
+        },
+      },
+      { params, reconnect: false }
+    );
+  }
+
+  /**
+   * Whether the session has exited
+   */
+  get exited(): boolean {
+    return this.exitEvent !== null;
+  }
+
+  /**
+   * Write input to the terminal
+   *
+   * @param data - Raw input (including control sequences, e.g. "\x03" for Ctrl+C)
+   */
+  write(data: string): void {
+    this.connection.send({ type: 'input', data });
+  }
+
+  /**
+   * Resize the terminal
+   *
+   * @param cols - Width in columns
+   * @param rows - Height in rows
+   */
+  resize(cols: number, rows: number): void {
+    this.cols = cols;
+    this.rows = rows;
+    this.connection.send({ type: 'resize', cols, rows });
+  }
+
+  /**
+   * Register a listener for terminal output
+   *
+   * @returns Function that removes the listener
+   */
+  onData(listener: (data: string) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for session exit
+   *
+   * Called immediately if the session has already exited.
+   *
+   * @returns Function that removes the listener
+   */
+  onExit(listener: (event: TerminalExitEvent) => void): () => void {
+    if (this.exitEvent) {
+      listener(this.exitEvent);
+      return () => {};
+    }
+    this.exitListeners.add(listener);
+    return () => {
+      this.exitListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for session errors
+   *
+   * Receives errors reported by the server (e.g. a failed resize) and
+   * connection errors after the session has opened. The session stays open
+   * unless an exit follows.
+   *
+   * @returns Function that removes the listener
+   */
+  onError(listener: (error: Error) => void): () => void {
+    this.errorListeners.add(listener);
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the session and terminate the shell
+   */
+  close(): void {
+    this.connection.close();
+  }
+
+  private emitExit(event: TerminalExitEvent): void {
+    if (this.exitEvent) {
+      return;
+    }
+    this.exitEvent = event;
+    this.exitListeners.forEach((listener) => listener(event));
+    this.exitListeners.clear();
+    this.dataListeners.clear();
+    this.errorListeners.clear();
+  }
+
+  private emitError(error: Error): void {
+    this.errorListeners.forEach((listener) => listener(error));
+  }
+}
+
+/**
+ * Terminal resource class
+ */
+export class TerminalResource {
+  constructor(
+    private readonly environmentId: string,
+    private readonly ws: WebSocketClient
+  ) {}
+
+  /**
+   * Open an interactive terminal session
+   *
+   * @param options - Terminal options
+   * @returns Connected terminal session
+   *
+   * @example
+   * ```typescript
+   * const term = await sandbox.terminal.open({ cols: 120, rows: 40, shell: '/bin/bash' });
+   *
+   * term.onData((data) => process.stdout.write(data));
+   * term.onExit(({ exitCode }) => console.log(`Shell exited with ${exitCode}`));
+   * term.onError((error) => console.error(error.message));
+   *
+   * term.write('ls -la\r');
+   * term.resize(160, 50);
+   *
+   * // Later
+   * term.close();
+   * ```
+   */
+  async open(options?: TerminalOptions): Promise<TerminalSession> {
+    const session = new TerminalSession(this.ws, this.environmentId, options);
+    await session.ready;
+    return session;
+  }
+}
@@ -31,6 +31,18 @@ export interface VibeBoxConfig {
   /** Initial retry delay in milliseconds (default: 1000) */
   retryDelay?: number;
 
+  /** Backoff strategy between retries (default: exponential) */
+  retryBackoff?: BackoffStrategy;
+
+  /** Upper bound for a single retry delay in milliseconds; a longer Retry-After fails the request instead (default: 30000) */
+  maxRetryDelay?: number;
+
+  /** Stop retrying once this many milliseconds have passed since the first attempt (default: 0, no limit) */
+  maxRetryTime?: number;
+
+  /** Called before each retry, e.g. for logging or metrics */
+  onRetry?: (info: RetryInfo) => void;
+
   /** Custom HTTP headers to include in all requests */
   headers?: Record<string, string>;
 }
@@ -61,6 +73,7 @@ export interface Environment {
   updatedAt: string;
   startedAt: string | null;
   stoppedAt: string | null;
+  labels?: Record<string, string>;
 }
 
 export interface CreateSandboxOptions {
@@ -102,6 +115,163 @@ export interface CreateSandboxOptions {
 
   /** Environment variables */
   env?: Record<string, string>;
+
+  /** User-defined labels for filtering (e.g., { 'ci-run': '1234' }) */
+  labels?: Record<string, string>;
+
+  /** Snapshot ID to restore the filesystem from */
+  fromSnapshot?: string;
+
+  /** Maximum time to wait for an auto-started sandbox to become ready in milliseconds (default: 120000) */
+  readyTimeout?: number;
+}
+
+export interface ListSandboxesOptions {
+  /** Project ID (uses default from config if not provided) */
+  projectId?: string;
+
+  /** Only return sandboxes with this status (or any of these statuses) */
+  status?: EnvironmentStatus | EnvironmentStatus[];
+
+  /** Only return sandboxes carrying all of these labels */
+  labels?: Record<string, string>;
+
+  /** Only return sandboxes created before this date */
+  createdBefore?: string | Date;
+
+  /** Only return sandboxes created after this date */
+  createdAfter?: string | Date;
+
+  /** Page size (default: 50) */
+  limit?: number;
+
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+}
+
+export interface ForkSandboxOptions {
+  /** Name prefix for the copies, suffixed with "-1", "-2", ... (default: "<name>-fork") */
+  name?: string;
+
+  /** CPU limit in cores (default: same as source) */
+  cpuLimit?: number;
+
+  /** Memory limit in MB (default: same as source) */
+  memoryLimit?: number;
+
+  /** Storage limit in MB (default: same as source) */
+  storageLimit?: number;
+
+  /** Auto-start copies after forking (default: true) */
+  autoStart?: boolean;
+
+  /** Ephemeral copies (auto-cleanup on expiration) (default: same as source) */
+  ephemeral?: boolean;
+
+  /** Expiration timeout (e.g., "2h", "30m", "1d") */
+  timeout?: string;
+
+  /** Environment variables merged over the ones copied from the source */
+  env?: Record<string, string>;
+
+  /** Labels merged over the ones copied from the source */
+  labels?: Record<string, string>;
+
+  /** Maximum time to wait for auto-started copies to become ready in milliseconds (default: 120000) */
+  readyTimeout?: number;
+}
+
+export interface ResetSandboxOptions {
+  /** Restore /workspace to its state at sandbox creation (default: true) */
+  files?: boolean;
+
+  /** Remove environment variables set after creation (default: true) */
+  env?: boolean;
+
+  /** Kill all background processes (default: true) */
+  processes?: boolean;
+}
+
+export interface WaitOptions {
+  /** Maximum time to wait in milliseconds (default: 120000) */
+  timeout?: number;
+
+  /** Polling interval in milliseconds (default: 1000) */
+  interval?: number;
+
+  /** Signal to abort waiting */
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Snapshot Types
+// ============================================================================
+
+export type SnapshotStatus = 'creating' | 'ready' | 'error';
+
+export interface Snapshot {
+  id: string;
+  name: string;
+  description?: string;
+  environmentId: string;
+  projectId: string;
+  baseImage: string;
+  status: SnapshotStatus;
+  size: number;
+  createdAt: string;
+}
+
+export interface CreateSnapshotOptions {
+  /** Snapshot name (auto-generated if not provided) */
+  name?: string;
+
+  /** Snapshot description */
+  description?: string;
+}
+
+export interface ListSnapshotsOptions {
+  /** Only return snapshots taken from this sandbox */
+  environmentId?: string;
+
+  /** Only return snapshots in this project */
+  projectId?: string;
+}
+
+// ============================================================================
+// Diff Types
+// ============================================================================
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** Line number in the old file (context and removed lines) */
+  oldLineNumber?: number;
+  /** Line number in the new file (context and added lines) */
+  newLineNumber?: number;
+  /** Line is followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing "@@" (usually the enclosing function) */
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface DiffFilePatch {
+  /** Old path (null for /dev/null or when the diff has no file headers) */
+  oldPath: string | null;
+  /** New path (null for /dev/null or when the diff has no file headers) */
+  newPath: string | null;
+  /** Whether the headers mark the file as created ("--- /dev/null" or "new file mode") */
+  isNew: boolean;
+  hunks: DiffHunk[];
 }
 
 // ============================================================================
@@ -190,18 +360,329 @@ export interface GitStatus {
   behind: number;
 }
 
+export type GitDiffStatus = 'modified' | 'added' | 'deleted' | 'renamed';
+
 export interface GitDiffFile {
   path: string;
-  status: 'modified' | 'added' | 'deleted';
+  status: GitDiffStatus;
+  /** Previous path for renamed files */
+  oldPath?: string;
   additions: number;
   deletions: number;
+  /** Whether the file is binary (binary files have no hunks) */
+  binary?: boolean;
+  /** Raw unified diff */
   diff: string;
+  /** Parsed hunks with line numbers */
+  hunks: DiffHunk[];
 }
 
 export interface GitDiff {
   files: GitDiffFile[];
 }
 
+export interface GitDiffOptions {
+  /** Base ref to compare from (default: index, or HEAD with `staged`) */
+  from?: string;
+  /** Ref to compare to (default: working tree) */
+  to?: string;
+  /** Compare staged changes against HEAD (default: false) */
+  staged?: boolean;
+  /** Limit the diff to these paths */
+  paths?: string[];
+  /** Number of context lines around changes (default: 3) */
+  contextLines?: number;
+  /** Ignore whitespace-only changes (default: false) */
+  ignoreWhitespace?: boolean;
+}
+
+export type GitDiffStatOptions = Omit<GitDiffOptions, 'contextLines'>;
+
+export interface GitDiffStatFile {
+  path: string;
+  status: GitDiffStatus;
+  /** Previous path for renamed files */
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+}
+
+export interface GitDiffStat {
+  files: GitDiffStatFile[];
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface GitBranch {
+  /** Branch name (e.g. "main" or "origin/main" for remote-tracking branches) */
+  name: string;
+  /** Whether this is the checked-out branch */
+  current: boolean;
+  /** Remote name for remote-tracking branches, null for local branches */
+  remote: string | null;
+  /** Commit the branch points to */
+  commit: string;
+  /** Upstream branch (e.g. "origin/main"), if tracking one */
+  upstream: string | null;
+}
+
+export interface GitBranchesOptions {
+  /** Include remote-tracking branches (default: false) */
+  remote?: boolean;
+}
+
+export interface GitDeleteBranchOptions {
+  /** Delete even if the branch is not fully merged (default: false) */
+  force?: boolean;
+}
+
+export interface GitSignature {
+  name: string;
+  email: string;
+  /** ISO 8601 timestamp */
+  date: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  shortSha: string;
+  /** First line of the commit message */
+  subject: string;
+  /** Remainder of the commit message after the subject */
+  body: string;
+  author: GitSignature;
+  committer: GitSignature;
+  /** Parent commit hashes (more than one for merge commits) */
+  parents: string[];
+}
+
+export interface GitLogOptions {
+  /** Revision or range to list (default: HEAD), e.g. "v1.0.0..HEAD" */
+  ref?: string;
+  /** Maximum number of commits (default: 50) */
+  limit?: number;
+  /** Only include commits touching this path */
+  path?: string;
+  /** Only include commits after this date */
+  since?: string | Date;
+  /** Only include commits before this date */
+  until?: string | Date;
+}
+
+export interface GitCommitDetails extends GitCommit {
+  /** Files changed by the commit */
+  files: GitDiffFile[];
+}
+
+export interface GitTag {
+  name: string;
+  /** Commit the tag points to */
+  commit: string;
+  annotated: boolean;
+  /** Tag message (annotated tags only) */
+  message: string | null;
+  /** Tagger (annotated tags only) */
+  tagger: GitSignature | null;
+}
+
+export interface GitTagOptions {
+  /** Commit or ref to tag (default: HEAD) */
+  ref?: string;
+  /** Create an annotated tag with this message */
+  message?: string;
+  /** Replace an existing tag with the same name (default: false) */
+  force?: boolean;
+}
+
+export interface GitOperationResult {
+  /** False if the operation stopped on conflicts */
+  success: boolean;
+  /** Resulting HEAD commit, null if the operation stopped on conflicts */
+  commit: string | null;
+  /** Paths with unresolved conflicts */
+  conflicts: string[];
+}
+
+export interface GitMergeOptions {
+  /** Always create a merge commit (default: false) */
+  noFastForward?: boolean;
+  /** Merge commit message */
+  message?: string;
+}
+
+export interface GitMergeResult extends GitOperationResult {
+  /** Whether the merge was a fast-forward */
+  fastForward: boolean;
+}
+
+export interface GitConflict {
+  path: string;
+  /** Content on the current branch (null if deleted there) */
+  ours: string | null;
+  /** Content on the incoming side (null if deleted there) */
+  theirs: string | null;
+  /** Content at the merge base (null if added on both sides) */
+  base: string | null;
+}
+
+export interface GitRestoreOptions {
+  /** Unstage instead of discarding working tree changes (default: false) */
+  staged?: boolean;
+  /** Restore content from this ref instead of the index/HEAD */
+  source?: string;
+}
+
+export type GitResetMode = 'soft' | 'mixed' | 'hard';
+
+export interface GitResetOptions {
+  /** Reset mode (default: mixed) */
+  mode?: GitResetMode;
+}
+
+export interface GitStashOptions {
+  /** Stash message */
+  message?: string;
+  /** Also stash untracked files (default: false) */
+  includeUntracked?: boolean;
+}
+
+export interface GitStashEntry {
+  /** Position in the stash list (0 is the most recent) */
+  index: number;
+  /** Stash ref, e.g. "stash@{0}" */
+  ref: string;
+  message: string;
+  /** Branch the stash was created on */
+  branch: string;
+  /** ISO 8601 timestamp */
+  date: string;
+}
+
+export interface GitCleanOptions {
+  /** Also remove untracked directories (default: true) */
+  directories?: boolean;
+  /** Also remove ignored files (default: false) */
+  ignored?: boolean;
+  /** Only report what would be removed (default: false) */
+  dryRun?: boolean;
+}
+
+export interface GitCleanResult {
+  /** Paths removed (or that would be removed in a dry run) */
+  removed: string[];
+}
+
+export interface GitRemote {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+export interface GitCredentials {
+  /** Host the credentials apply to (e.g. "github.com") */
+  host: string;
+  auth: GitAuthConfig;
+  /** Username for token auth (default: provider-specific, e.g. "x-access-token") */
+  username?: string;
+}
+
+export type GitConfigScope = 'local' | 'global';
+
+export interface GitConfigOptions {
+  /** Repository-local or user-global config (default: local) */
+  scope?: GitConfigScope;
+}
+
+// ============================================================================
+// Pull Request Types
+// ============================================================================
+
+export type PullRequestProviderName = 'github' | 'gitlab';
+
+export interface PullRequestRepository {
+  /** Hosting server (e.g. "github.com") */
+  host: string;
+  /** Owner, organization or (for GitLab) group path */
+  owner: string;
+  repo: string;
+}
+
+export interface CreatePullRequestParams {
+  repository: PullRequestRepository;
+  /** Branch the changes should be merged into */
+  base: string;
+  /** Branch containing the changes */
+  head: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+}
+
+export type PullRequestState = 'open' | 'closed' | 'merged';
+
+export interface PullRequest {
+  /** Provider name (e.g. "github") */
+  provider: string;
+  /** Pull/merge request number within the repository */
+  number: number;
+  /** Web URL of the pull request */
+  url: string;
+  state: PullRequestState;
+  title: string;
+  base: string;
+  head: string;
+}
+
+/**
+ * Hosting provider adapter used by `sandbox.git.openPullRequest()`
+ *
+ * Implement this interface to support providers beyond GitHub and GitLab.
+ */
+export interface PullRequestProvider {
+  readonly name: string;
+  createPullRequest(params: CreatePullRequestParams): Promise<PullRequest>;
+}
+
+export interface PullRequestProviderOptions {
+  /** API token */
+  token: string;
+  /**
+   * API base URL (e.g. a local mock)
+   *
+   * Defaults to the API of the repository's host: api.github.com for
+   * github.com, `https://<host>/api/v3` for GitHub Enterprise and
+   * `https://<host>/api/v4` for GitLab.
+   */
+  baseUrl?: string;
+}
+
+export interface OpenPullRequestOptions {
+  /** Built-in provider name or a custom provider */
+  provider: PullRequestProviderName | PullRequestProvider;
+  /** API token (required for built-in providers) */
+  token?: string;
+  /** API base URL for built-in providers */
+  baseUrl?: string;
+  /** Branch the changes should be merged into */
+  base: string;
+  /**
+   * Branch containing the changes (default: current branch)
+   *
+   * For a pull request from a fork on GitHub, use `owner:branch` together
+   * with `remote` (or `repository`) pointing at the upstream repository.
+   */
+  head?: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+  /** Remote used to determine the target repository (default: origin) */
+  remote?: string;
+  /** Target repository (default: derived from the remote URL) */
+  repository?: PullRequestRepository;
+}
+
 // ============================================================================
 // Execution Types
 // ============================================================================
@@ -223,14 +704,17 @@ export interface ExecutionOptions {
   /** Working directory */
   cwd?: string;
 
-  /** Enable WebSocket streaming (default: false) */
+  /** Stream output over WebSocket while waiting for the result (default: false) */
   stream?: boolean;
 
-  /** Retry attempts on failure (default: 0) */
+  /** Retry attempts when an execution fails (default: 0) */
   retries?: number;
 
   /** Retry delay in milliseconds (default: 1000) */
   retryDelay?: number;
+
+  /** Decide whether a result should be retried (default: non-zero exit code) */
+  retryOn?: (result: ExecutionResult) => boolean;
 }
 
 export interface ExecutionResult {
@@ -242,6 +726,26 @@ export interface ExecutionResult {
   status: ExecutionStatus;
 }
 
+export interface ExecutionStreamOptions extends ExecutionOptions {
+  /** Called with each stdout chunk as it arrives */
+  onStdout?: (data: string) => void;
+
+  /** Called with each stderr chunk as it arrives */
+  onStderr?: (data: string) => void;
+}
+
+export interface ExecutionOutputChunk {
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+export type ExecutionStreamMessage =
+  | { type: 'started'; executionId: string }
+  | { type: 'stdout'; data: string }
+  | { type: 'stderr'; data: string }
+  | { type: 'exit'; result: ExecutionResult }
+  | { type: 'error'; message: string };
+
 export interface Execution {
   id: string;
   environmentId: string;
@@ -260,6 +764,85 @@ export interface Execution {
   completedAt: string | null;
 }
 
+// ============================================================================
+// Process Types
+// ============================================================================
+
+export type ProcessSignal = 'SIGTERM' | 'SIGKILL' | 'SIGINT' | 'SIGHUP' | 'SIGQUIT' | 'SIGUSR1' | 'SIGUSR2';
+
+export interface Process {
+  pid: number;
+  command: string;
+  cwd: string;
+  status: ExecutionStatus;
+  exitCode: number | null;
+  signal: ProcessSignal | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface StartProcessOptions {
+  /** Working directory */
+  cwd?: string;
+
+  /** Environment variables for the process */
+  env?: Record<string, string>;
+}
+
+export interface WaitProcessOptions {
+  /** Maximum time to wait in milliseconds (default: no limit) */
+  timeout?: number;
+
+  /** Polling interval in milliseconds (default: 1000) */
+  interval?: number;
+}
+
+export interface ProcessLogsOptions {
+  /** Only return the last N lines of each stream */
+  tail?: number;
+}
+
+export interface ProcessLogs {
+  stdout: string;
+  stderr: string;
+}
+
+// ============================================================================
+// Terminal Types
+// ============================================================================
+
+export interface TerminalOptions {
+  /** Terminal width in columns (default: 80) */
+  cols?: number;
+
+  /** Terminal height in rows (default: 24) */
+  rows?: number;
+
+  /** Shell to launch (default: server default, usually /bin/bash) */
+  shell?: string;
+
+  /** Working directory */
+  cwd?: string;
+
+  /** Environment variables for the shell */
+  env?: Record<string, string>;
+}
+
+export interface TerminalExitEvent {
+  exitCode: number;
+  signal?: string;
+}
+
+export type TerminalServerMessage =
+  | { type: 'output'; data: string }
+  | ({ type: 'exit' } & TerminalExitEvent)
+  | { type: 'error'; message: string };
+
+export type TerminalClientMessage =
+  | { type: 'init'; env: Record<string, string> }
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
 // ============================================================================
 // File Types
 // ============================================================================
@@ -273,6 +856,42 @@ export interface FileInfo {
   modifiedAt: string;
 }
 
+export interface FileStat extends FileInfo {
+  owner: string;
+  group: string;
+  uid: number;
+  gid: number;
+  isSymlink: boolean;
+  /** Target path if the file is a symbolic link */
+  symlinkTarget: string | null;
+  /** Detected MIME type (null for directories) */
+  mimeType: string | null;
+  /** SHA-256 content hash (null for directories) */
+  hash: string | null;
+  createdAt: string;
+  accessedAt: string;
+}
+
+export interface FileTreeNode extends FileInfo {
+  /** Child entries (directories only; omitted beyond the requested depth) */
+  children?: FileTreeNode[];
+}
+
+export interface FileTreeOptions {
+  /** Maximum depth to descend (default: 3) */
+  depth?: number;
+}
+
+export interface ChmodOptions {
+  /** Apply to directory contents recursively (default: false) */
+  recursive?: boolean;
+}
+
+export interface ChownOptions {
+  /** Apply to directory contents recursively (default: false) */
+  recursive?: boolean;
+}
+
 export interface ListFilesResponse {
   files: FileInfo[];
   path: string;
@@ -290,6 +909,255 @@ export interface UploadResult {
   size: number;
 }
 
+export interface TransferProgress {
+  /** Bytes transferred so far (including bytes skipped when resuming) */
+  bytesTransferred: number;
+
+  /** Total size in bytes, if known */
+  totalBytes: number | null;
+
+  /** Upload session ID (uploads only); pass as `uploadId` to resume */
+  uploadId?: string;
+}
+
+export interface UploadStreamOptions {
+  /** File permissions (default: 644) */
+  permissions?: string;
+
+  /** Chunk size in bytes (default: 8 MiB) */
+  chunkSize?: number;
+
+  /** Total size in bytes, used for progress reporting */
+  size?: number;
+
+  /** Resume an interrupted upload session (the stream must start from the beginning) */
+  uploadId?: string;
+
+  /** Verify the SHA-256 checksum after upload (default: true) */
+  verify?: boolean;
+
+  /** Called after each chunk */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+export interface DownloadStreamOptions {
+  /** Chunk size in bytes (default: 8 MiB) */
+  chunkSize?: number;
+
+  /** Byte offset to start from, for resuming a partial download (default: 0) */
+  offset?: number;
+
+  /** Verify the SHA-256 checksum after download; ignored when `offset` > 0 (default: true) */
+  verify?: boolean;
+
+  /** Called after each chunk */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  path: string;
+  /** Bytes already received by the server */
+  offset: number;
+}
+
+export interface StreamUploadResult extends UploadResult {
+  uploadId: string;
+  checksum: string;
+}
+
+export interface FileChecksum {
+  path: string;
+  algorithm: 'sha256';
+  checksum: string;
+}
+
+export interface RemoteFileEntry {
+  /** Path relative to the manifest root, "/"-separated */
+  path: string;
+  size: number;
+  modifiedAt: string;
+  checksum?: string;
+}
+
+export interface FileManifest {
+  path: string;
+  files: RemoteFileEntry[];
+}
+
+export type SyncCompareMode = 'hash' | 'mtime' | 'size';
+
+export interface SyncOptions {
+  /** Additional .gitignore-style patterns to skip */
+  ignore?: string[];
+
+  /** Honor the .gitignore at the root of the source directory (default: true) */
+  gitignore?: boolean;
+
+  /** Delete destination files that don't exist in the source (default: false) */
+  delete?: boolean;
+
+  /** Report changes without transferring anything (default: false) */
+  dryRun?: boolean;
+
+  /** How to detect changed files of equal size (default: 'hash') */
+  compare?: SyncCompareMode;
+
+  /** Maximum concurrent transfers (default: 4) */
+  concurrency?: number;
+}
+
+export interface SyncResult {
+  /** Files that exist only in the source */
+  added: string[];
+
+  /** Files that differ between source and destination */
+  updated: string[];
+
+  /** Destination files removed (only with `delete: true`) */
+  deleted: string[];
+
+  /** Number of files already in sync */
+  unchanged: number;
+
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'zip';
+
+export interface ExportArchiveOptions {
+  /** Archive format (default: 'tar.gz') */
+  format?: ArchiveFormat;
+
+  /** .gitignore-style patterns to leave out of the archive */
+  exclude?: string[];
+}
+
+export interface ImportArchiveOptions {
+  /** Archive format (default: 'tar.gz') */
+  format?: ArchiveFormat;
+
+  /** Strip this many leading path components from entries (default: 0) */
+  stripComponents?: number;
+
+  /** Overwrite existing files (default: true) */
+  overwrite?: boolean;
+
+  /** Request timeout in milliseconds (default: client `timeout`) */
+  timeout?: number;
+}
+
+export interface ImportArchiveResult {
+  success: boolean;
+  path: string;
+  filesExtracted: number;
+}
+
+export type FileWatchEventType = 'create' | 'modify' | 'delete' | 'rename';
+
+export interface FileWatchEvent {
+  type: FileWatchEventType;
+  path: string;
+  /** Previous path (rename events only) */
+  oldPath?: string;
+  isDirectory: boolean;
+  timestamp: string;
+}
+
+export interface FileWatchOptions {
+  /** Watch subdirectories too (default: true) */
+  recursive?: boolean;
+
+  /** .gitignore-style patterns (relative to the watched path) to skip */
+  ignore?: string[];
+
+  /** Reconnect automatically if the connection drops (default: true) */
+  reconnect?: boolean;
+
+  /** Called on connection errors */
+  onError?: (error: Error) => void;
+}
+
+export type FileWatchSubscription = LogSubscription;
+
+export interface GrepOptions {
+  /** Directory or file to search (default: /workspace) */
+  path?: string;
+
+  /** Treat the pattern as a regular expression instead of a literal string (default: false) */
+  regex?: boolean;
+
+  /** Case-insensitive matching (default: false) */
+  caseInsensitive?: boolean;
+
+  /** Only search files matching these globs (e.g. ['*.ts']) */
+  include?: string[];
+
+  /** Skip files matching these globs (e.g. ['node_modules/**']) */
+  exclude?: string[];
+
+  /** Maximum number of matches to return (default: 1000) */
+  maxResults?: number;
+
+  /** Lines of context before and after each match (default: 0) */
+  contextLines?: number;
+}
+
+export interface GrepMatch {
+  /** File path */
+  file: string;
+
+  /** Line number (1-based) */
+  line: number;
+
+  /** Column of the match start (1-based) */
+  column: number;
+
+  /** Full text of the matching line */
+  text: string;
+
+  /** Matched text */
+  match: string;
+
+  /** Context lines before the match */
+  before: string[];
+
+  /** Context lines after the match */
+  after: string[];
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+
+  /** True if more matches exist beyond `maxResults` */
+  truncated: boolean;
+}
+
+export interface WriteJSONOptions {
+  /** Indentation (default: 2) */
+  indent?: number;
+
+  /** File permissions (default: 644) */
+  permissions?: string;
+}
+
+export interface PatchResult {
+  /** Whether the patch was applied (all hunks succeeded) */
+  applied: boolean;
+  path: string;
+  hunksApplied: number;
+  failedHunks: FailedHunk[];
+}
+
+export interface FailedHunk {
+  /** Zero-based index of the hunk in the diff */
+  index: number;
+  oldStart: number;
+  oldLines: number;
+  reason: string;
+}
+
 export interface DeleteFileOptions {
   recursive?: boolean;
 }
@@ -366,8 +1234,34 @@ export interface LogSubscription {
 }
 
 export interface LogSubscriptionOptions {
+  /** Only deliver entries from this stream */
   filter?: 'stdout' | 'stderr';
+
+  /** Minimum severity to deliver (debug < info < warn < error) */
   level?: LogLevel;
+
+  /** Reconnect automatically if the connection drops (default: true) */
+  reconnect?: boolean;
+
+  /** Called on connection errors */
+  onError?: (error: Error) => void;
+}
+
+export interface WebSocketConnectOptions {
+  /** Query parameters appended to the connection URL */
+  params?: Record<string, string | number | boolean>;
+
+  /** Reconnect automatically when the connection drops (default: true) */
+  reconnect?: boolean;
+
+  /** Maximum consecutive reconnect attempts (default: 10) */
+  maxReconnectAttempts?: number;
+
+  /** Initial reconnect delay in milliseconds (default: 500) */
+  reconnectDelay?: number;
+
+  /** Maximum reconnect delay in milliseconds (default: 30000) */
+  maxReconnectDelay?: number;
 }
 
 // ============================================================================
@@ -380,6 +1274,16 @@ export interface EnvironmentVariable {
   encrypted: boolean;
 }
 
+// ============================================================================
+// Pagination Types
+// ============================================================================
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
 // ============================================================================
 // HTTP Client Types
 // ============================================================================
@@ -389,17 +1293,93 @@ export interface RequestOptions {
   params?: Record<string, string | number | boolean>;
   body?: any;
   timeout?: number;
-  responseType?: 'json' | 'arraybuffer' | 'text';
+  responseType?: 'json' | 'arraybuffer' | 'text' | 'stream';
 }
 
+/**
+ * Outgoing request as seen by HTTP middleware
+ *
+ * Middleware may modify the request in place or pass a new object to `next`.
+ */
+export interface HttpRequest {
+  method: string;
+  /** Full request URL including query parameters */
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized body (JSON string, binary data or a stream) */
+  body?: string | Uint8Array | AsyncIterable<Uint8Array>;
+  signal: AbortSignal;
+  /** Attempt number, starting at 1 (middleware runs again on every retry) */
+  attempt: number;
+}
+
+/**
+ * Passes a request to the next middleware, or sends it
+ */
+export type HttpNext = (request: HttpRequest) => Promise<Response>;
+
+/**
+ * HTTP middleware
+ *
+ * Call `next(request)` to continue the chain, or return a `Response`
+ * directly to short-circuit it.
+ */
+export type HttpMiddleware = (request: HttpRequest, next: HttpNext) => Promise<Response>;
+
+/**
+ * WebSocket handshake as seen by handshake hooks
+ *
+ * Hooks may modify the URL and headers in place.
+ */
+export interface WebSocketHandshake {
+  /** Full ws:/wss: URL including query parameters */
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Hook run before every WebSocket handshake
+ *
+ * HTTP middleware does not see WebSocket connections (logs, terminal,
+ * streamed execution, file watching, process output); use a handshake
+ * hook to apply the same headers there.
+ */
+export type WebSocketHandshakeHook = (handshake: WebSocketHandshake) => void;
+
 // ============================================================================
 // Retry Types
 // ============================================================================
 
+/**
+ * Delay strategy between retries
+ *
+ * - `exponential`: `retryDelay * 2^attempt`
+ * - `full-jitter`: random delay between 0 and the exponential delay
+ * - `decorrelated-jitter`: random delay between `retryDelay` and three times the previous delay
+ */
+export type BackoffStrategy = 'exponential' | 'full-jitter' | 'decorrelated-jitter';
+
+export interface RetryInfo {
+  /** Retry number, starting at 1 */
+  attempt: number;
+  /** Delay before the retry in milliseconds */
+  delay: number;
+  /** Error that caused the retry */
+  error: unknown;
+}
+
 export interface RetryOptions {
   retries: number;
   retryDelay: number;
   retryCondition?: (error: any) => boolean;
+  /** Backoff strategy (default: exponential) */
+  backoff?: BackoffStrategy;
+  /** Upper bound for a single delay in milliseconds (a longer retryAfter stops retrying) */
+  maxDelay?: number;
+  /** Maximum total time in milliseconds before giving up (0 for no limit) */
+  maxElapsedTime?: number;
+  /** Called before each retry */
+  onRetry?: (info: RetryInfo) => void;
 }
 
 // ============================================================================
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncQueue } from './async-queue';
+
+async function collect<T>(queue: AsyncQueue<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of queue) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('AsyncQueue', () => {
+  it('buffers values pushed before they are consumed', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    await expect(collect(queue)).resolves.toEqual([1, 2]);
+  });
+
+  it('delivers values to a consumer that is already waiting', async () => {
+    const queue = new AsyncQueue<number>();
+    const values = collect(queue);
+
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    await expect(values).resolves.toEqual([1, 2]);
+  });
+
+  it('ignores values pushed after end()', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.end();
+    queue.push(1);
+
+    await expect(queue.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('delivers buffered values before throwing the failure', async () => {
+    const queue = new AsyncQueue<number>();
+    const error = new Error('stream failed');
+    queue.push(1);
+    queue.fail(error);
+
+    await expect(queue.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(queue.next()).rejects.toBe(error);
+    await expect(queue.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('rejects a waiting consumer on failure', async () => {
+    const queue = new AsyncQueue<number>();
+    const pending = queue.next();
+    queue.fail(new Error('stream failed'));
+
+    await expect(pending).rejects.toThrow('stream failed');
+  });
+
+  it('calls onReturn and drops buffered values when the consumer stops early', async () => {
+    const onReturn = vi.fn();
+    const queue = new AsyncQueue<number>(onReturn);
+    queue.push(1);
+    queue.push(2);
+
+    for await (const value of queue) {
+      expect(value).toBe(1);
+      break;
+    }
+
+    expect(onReturn).toHaveBeenCalledTimes(1);
+    await expect(queue.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+});
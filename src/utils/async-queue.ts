@@ -0,0 +1,113 @@
+/**
+ * Push-based async iterator
+ *
+ * Bridges callback-style event sources (such as WebSocket streams) to
+ * `for await...of` consumers.
+ */
+
+/**
+ * Async iterable queue
+ *
+ * Values pushed before a consumer calls `next()` are buffered. Calling
+ * `return()` (e.g. by breaking out of a `for await` loop) invokes the
+ * `onReturn` callback so the producer can release its resources.
+ *
+ * @example
+ * ```typescript
+ * const queue = new AsyncQueue<string>(() => socket.close());
+ * socket.on('message', (msg) => queue.push(msg));
+ * socket.on('close', () => queue.end());
+ *
+ * for await (const msg of queue) {
+ *   console.log(msg);
+ * }
+ * ```
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T> {
+  private readonly values: T[] = [];
+  private readonly waiting: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error: unknown = null;
+
+  constructor(private readonly onReturn?: () => void) {}
+
+  /**
+   * Add a value to the queue
+   */
+  push(value: T): void {
+    if (this.done) {
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+    } else {
+      this.values.push(value);
+    }
+  }
+
+  /**
+   * Signal that no more values will be produced
+   */
+  end(): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * Terminate the queue with an error
+   *
+   * Buffered values are still delivered before the error is thrown.
+   */
+  fail(error: unknown): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.error = error;
+
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  async next(): Promise<IteratorResult<T>> {
+    if (this.values.length > 0) {
+      return { value: this.values.shift() as T, done: false };
+    }
+
+    if (this.done) {
+      if (this.error) {
+        const error = this.error;
+        this.error = null;
+        throw error;
+      }
+      return { value: undefined, done: true };
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.values.length = 0;
+    this.end();
+    this.onReturn?.();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Concurrency utilities
+ */
+
+/**
+ * Map over items with a bounded number of concurrent operations
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of operations in flight
+ * @param fn - Async operation applied to each item
+ * @returns Results in input order
+ *
+ * @example
+ * ```typescript
+ * const sizes = await mapConcurrent(paths, 4, (p) => sandbox.files.info(p));
+ * ```
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff, applyHunks } from './diff';
+
+describe('parseUnifiedDiff', () => {
+  it('parses git diff headers and line numbers', () => {
+    const [file] = parseUnifiedDiff(
+      [
+        'diff --git a/src/app.ts b/src/app.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,3 +1,3 @@ function main()',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+      ].join('\n')
+    );
+
+    expect(file.oldPath).toBe('src/app.ts');
+    expect(file.newPath).toBe('src/app.ts');
+    expect(file.isNew).toBe(false);
+    expect(file.hunks).toHaveLength(1);
+    expect(file.hunks[0].header).toBe('function main()');
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'a', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'remove', content: 'b', oldLineNumber: 2 },
+      { type: 'add', content: 'B', newLineNumber: 2 },
+      { type: 'context', content: 'c', oldLineNumber: 3, newLineNumber: 3 },
+    ]);
+  });
+
+  it('parses headerless hunks without marking the file as new', () => {
+    const [file] = parseUnifiedDiff('@@ -2,3 +2,3 @@\n b\n-c\n+C\n d\n');
+
+    expect(file.oldPath).toBeNull();
+    expect(file.newPath).toBeNull();
+    expect(file.isNew).toBe(false);
+    expect(file.hunks[0].oldStart).toBe(2);
+  });
+
+  it('marks /dev/null and "new file mode" diffs as new', () => {
+    const [plain] = parseUnifiedDiff('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n');
+    const [git] = parseUnifiedDiff(
+      'diff --git a/new.txt b/new.txt\nnew file mode 100644\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n'
+    );
+
+    expect(plain.isNew).toBe(true);
+    expect(plain.newPath).toBe('new.txt');
+    expect(git.isNew).toBe(true);
+  });
+
+  it('strips carriage returns from CRLF diffs', () => {
+    const [file] = parseUnifiedDiff('@@ -1,2 +1,2 @@\r\n a\r\n-b\r\n+B\r\n');
+
+    expect(file.hunks[0].lines.map((l) => l.content)).toEqual(['a', 'b', 'B']);
+  });
+
+  it('records "no newline at end of file" markers', () => {
+    const [file] = parseUnifiedDiff('@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+a\n');
+
+    expect(file.hunks[0].lines[0].noNewline).toBe(true);
+    expect(file.hunks[0].lines[1].noNewline).toBeUndefined();
+  });
+
+  it('detects renames', () => {
+    const [file] = parseUnifiedDiff(
+      'diff --git a/old.ts b/new.ts\nsimilarity index 90%\nrename from old.ts\nrename to new.ts\n'
+    );
+
+    expect(file.oldPath).toBe('old.ts');
+    expect(file.newPath).toBe('new.ts');
+  });
+});
+
+describe('applyHunks', () => {
+  const hunks = (diff: string) => parseUnifiedDiff(diff)[0].hunks;
+
+  it('applies a headerless hunk', () => {
+    const result = applyHunks('a\nb\nc\nd\n', hunks('@@ -2,3 +2,3 @@\n b\n-c\n+C\n d\n'));
+
+    expect(result).toEqual({ content: 'a\nb\nC\nd\n', applied: 1, failed: [] });
+  });
+
+  it('keeps CRLF line endings', () => {
+    const result = applyHunks('a\r\nb\r\n', hunks('@@ -1,2 +1,2 @@\n a\n-b\n+B\n'));
+
+    expect(result.failed).toEqual([]);
+    expect(result.content).toBe('a\r\nB\r\n');
+  });
+
+  it('adds and removes the trailing newline', () => {
+    const added = applyHunks('a', hunks('@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+a\n'));
+    const removed = applyHunks('a\n', hunks('@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n'));
+
+    expect(added.content).toBe('a\n');
+    expect(removed.content).toBe('a');
+  });
+
+  it('places hunks whose context has shifted', () => {
+    const original = 'x\ny\na\nb\nc\n';
+    const result = applyHunks(original, hunks('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'));
+
+    expect(result.applied).toBe(1);
+    expect(result.content).toBe('x\ny\na\nB\nc\n');
+  });
+
+  it('keeps later hunks aligned after an earlier one changes the line count', () => {
+    const original = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n') + '\n';
+    const diff = '@@ -1,2 +1,3 @@\n 1\n+1.5\n 2\n@@ -7,2 +8,2 @@\n 7\n-8\n+eight\n';
+    const result = applyHunks(original, hunks(diff));
+
+    expect(result.applied).toBe(2);
+    expect(result.content).toBe('1\n1.5\n2\n3\n4\n5\n6\n7\neight\n');
+  });
+
+  it('reports hunks whose context is missing and applies the rest', () => {
+    const diff = '@@ -1,2 +1,2 @@\n a\n-b\n+B\n@@ -10,2 +10,2 @@\n nope\n-gone\n+here\n';
+    const result = applyHunks('a\nb\n', hunks(diff));
+
+    expect(result.applied).toBe(1);
+    expect(result.content).toBe('a\nB\n');
+    expect(result.failed).toEqual([
+      { index: 1, oldStart: 10, oldLines: 2, reason: 'Context lines do not match the file' },
+    ]);
+  });
+
+  it('creates content from an empty file', () => {
+    const result = applyHunks('', hunks('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+hello\n+world\n'));
+
+    expect(result.content).toBe('hello\nworld\n');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unified diff parsing and patch application
+ */
+
+import type { DiffFilePatch, DiffHunk, FailedHunk } from '../types';
+
+/**
+ * Result of applying hunks to a text
+ */
+export interface ApplyHunksResult {
+  content: string;
+  applied: number;
+  failed: FailedHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse a path from a "---"/"+++" header line
+ */
+function parseHeaderPath(value: string): string | null {
+  // Drop optional tab-separated timestamp
+  const path = value.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff into per-file hunks
+ *
+ * Accepts `git diff` output as well as plain `diff -u` output, with or
+ * without file headers. Line numbers are resolved for every hunk line.
+ *
+ * @param diff - Unified diff text
+ * @returns Parsed file patches
+ *
+ * @example
+ * ```typescript
+ * const [file] = parseUnifiedDiff(diffText);
+ * file.hunks.forEach(h => console.log(`-${h.oldStart},${h.oldLines} +${h.newStart},${h.newLines}`));
+ * ```
+ */
+export function parseUnifiedDiff(diff: string): DiffFilePatch[] {
+  const files: DiffFilePatch[] = [];
+  let file: DiffFilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const startFile = (): DiffFilePatch => {
+    file = { oldPath: null, newPath: null, isNew: false, hunks: [] };
+    files.push(file);
+    hunk = null;
+    return file;
+  };
+
+  const lines = diff.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const raw of lines) {
+    const line = raw.replace(/\r$/, '');
+
+    // Hunk body
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.slice(1);
+
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ type: 'context', content, oldLineNumber: oldLine++, newLineNumber: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '-') {
+        hunk.lines.push({ type: 'remove', content, oldLineNumber: oldLine++ });
+        oldRemaining--;
+        continue;
+      }
+      if (marker === '+') {
+        hunk.lines.push({ type: 'add', content, newLineNumber: newLine++ });
+        newRemaining--;
+        continue;
+      }
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" applies to the preceding line
+      const last = hunk ? (hunk as DiffHunk).lines[(hunk as DiffHunk).lines.length - 1] : undefined;
+      if (last) {
+        last.noNewline = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      const current = startFile();
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match) {
+        current.oldPath = match[1];
+        current.newPath = match[2];
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      const current: DiffFilePatch = file && !hunk ? file : startFile();
+      current.oldPath = parseHeaderPath(line.slice(4));
+      current.isNew = current.isNew || current.oldPath === null;
+      continue;
+    }
+
+    if (line.startsWith('new file mode ') && file) {
+      (file as DiffFilePatch).isNew = true;
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && file) {
+      (file as DiffFilePatch).newPath = parseHeaderPath(line.slice(4));
+      continue;
+    }
+
+    if (line.startsWith('rename from ') && file) {
+      (file as DiffFilePatch).oldPath = line.slice('rename from '.length);
+      continue;
+    }
+
+    if (line.startsWith('rename to ') && file) {
+      (file as DiffFilePatch).newPath = line.slice('rename to '.length);
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      const current: DiffFilePatch = file || startFile();
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        header: header[5],
+        lines: [],
+      };
+      current.hunks.push(hunk);
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find where a block of lines occurs, preferring the position closest to `expected`
+ */
+function findBlock(lines: string[], block: string[], expected: number): number {
+  const last = lines.length - block.length;
+  const matchesAt = (position: number) =>
+    position >= 0 && position <= last && block.every((line, i) => lines[position + i] === line);
+
+  for (let distance = 0; distance <= Math.max(expected, last - expected); distance++) {
+    if (matchesAt(expected - distance)) {
+      return expected - distance;
+    }
+    if (distance > 0 && matchesAt(expected + distance)) {
+      return expected + distance;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Apply hunks to a text
+ *
+ * Each hunk is placed at its recorded line number, or at the nearest
+ * position where its context still matches if the file has shifted.
+ * Hunks whose context cannot be found are reported as failed and skipped.
+ * Lines are compared without line endings, and the text's line ending
+ * (LF or CRLF) is kept in the output.
+ *
+ * @param original - Original text
+ * @param hunks - Hunks to apply, in file order
+ * @returns Patched text with applied/failed hunk counts
+ */
+export function applyHunks(original: string, hunks: DiffHunk[]): ApplyHunksResult {
+  const eol = /\r\n/.test(original.slice(0, original.indexOf('\n') + 1)) ? '\r\n' : '\n';
+  const lines = original === '' ? [] : original.split('\n').map((line) => line.replace(/\r$/, ''));
+  let endsWithNewline = original === '' || original.endsWith('\n');
+  if (original.endsWith('\n')) {
+    lines.pop();
+  }
+
+  const failed: FailedHunk[] = [];
+  let applied = 0;
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const before = hunk.lines.filter((l) => l.type !== 'add').map((l) => l.content);
+    const after = hunk.lines.filter((l) => l.type !== 'remove').map((l) => l.content);
+
+    // A pure insertion's oldStart is the line it follows
+    const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+    const position = findBlock(lines, before, Math.max(0, Math.min(expected, lines.length)));
+
+    if (position === -1) {
+      failed.push({
+        index,
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        reason: 'Context lines do not match the file',
+      });
+      return;
+    }
+
+    lines.splice(position, before.length, ...after);
+    offset += position - expected + after.length - before.length;
+    applied++;
+
+    // Track "\ No newline at end of file" when the hunk touches the end
+    if (position + after.length === lines.length) {
+      const lastNew = hunk.lines.filter((l) => l.type !== 'remove').pop();
+      if (lastNew) {
+        endsWithNewline = !lastNew.noNewline;
+      }
+    }
+  });
+
+  const content = lines.join(eol) + (endsWithNewline && lines.length > 0 ? eol : '');
+  return { content, applied, failed };
+}
@@ -0,0 +1,57 @@
+/**
+ * Git remote URL parsing
+ */
+
+import type { PullRequestRepository } from '../types';
+
+/**
+ * Parse a git remote URL into host, owner and repository name
+ *
+ * Supports HTTPS (`https://github.com/owner/repo.git`), SSH
+ * (`ssh://git@github.com/owner/repo.git`) and scp-like
+ * (`git@github.com:owner/repo.git`) URLs. For nested groups the owner is
+ * the full group path (e.g. `group/subgroup`).
+ *
+ * @param url - Remote URL
+ * @returns Parsed repository, or null if the URL is not recognized
+ *
+ * @example
+ * ```typescript
+ * parseGitRemoteUrl('git@github.com:acme/api.git');
+ * // { host: 'github.com', owner: 'acme', repo: 'api' }
+ * ```
+ */
+export function parseGitRemoteUrl(url: string): PullRequestRepository | null {
+  let host: string;
+  let path: string;
+
+  const scpLike = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (!url.includes('://') && scpLike) {
+    host = scpLike[1];
+    path = scpLike[2];
+  } else {
+    try {
+      const parsed = new URL(url);
+      // An SSH port says nothing about the web/API host; an HTTP(S) port does
+      host = /^https?:$/.test(parsed.protocol) ? parsed.host : parsed.hostname;
+      path = parsed.pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const segments = path
+    .replace(/\.git\/?$/, '')
+    .split('/')
+    .filter(Boolean);
+
+  if (!host || segments.length < 2) {
+    return null;
+  }
+
+  return {
+    host,
+    owner: segments.slice(0, -1).join('/'),
+    repo: segments[segments.length - 1],
+  };
+}
@@ -2,8 +2,17 @@
  * HTTP Client with retry logic and authentication
  */
 
-import type { VibeBoxConfig, RequestOptions } from '../types';
-import { createApiError, isRetryableError, TimeoutError } from '../errors';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import type {
+  VibeBoxConfig,
+  RequestOptions,
+  HttpMiddleware,
+  HttpRequest,
+  WebSocketHandshake,
+  WebSocketHandshakeHook,
+} from '../types';
+import { createApiError, isRetryableError, parseRetryAfter, TimeoutError } from '../errors';
 import { withRetry } from './retry';
 
 /**
@@ -11,14 +20,54 @@ import { withRetry } from './retry';
  *
  * Features:
  * - Automatic authentication (API key or JWT)
- * - Retry logic with exponential backoff
- * - Request/response interceptors
+ * - Retry logic with configurable backoff and Retry-After support
+ * - Request/response middleware
  * - Timeout handling
  * - Error transformation
  */
 export class HttpClient {
+  private readonly middleware: HttpMiddleware[] = [];
+  private readonly handshakeHooks: WebSocketHandshakeHook[] = [];
+
   constructor(private readonly config: Required<VibeBoxConfig>) {}
 
+  /**
+   * Register middleware
+   *
+   * Middleware runs in registration order around every request attempt,
+   * including retries.
+   *
+   * @param middleware - Middleware function
+   */
+  use(middleware: HttpMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Register a WebSocket handshake hook
+   *
+   * WebSocket connections are opened by {@link WebSocketClient}, which
+   * applies these hooks; HTTP middleware does not run for them.
+   *
+   * @param hook - Hook function
+   */
+  useWebSocket(hook: WebSocketHandshakeHook): void {
+    this.handshakeHooks.push(hook);
+  }
+
+  /**
+   * Run registered handshake hooks over a WebSocket handshake
+   *
+   * @param handshake - Handshake URL and headers
+   * @returns The (possibly modified) handshake
+   */
+  prepareHandshake(handshake: WebSocketHandshake): WebSocketHandshake {
+    for (const hook of this.handshakeHooks) {
+      hook(handshake);
+    }
+    return handshake;
+  }
+
   /**
    * Make an HTTP request
    *
@@ -34,6 +83,8 @@ export class HttpClient {
   ): Promise<T> {
     const url = this.buildUrl(path, options?.params);
     const timeout = options?.timeout || this.config.timeout;
+    const streamed = options?.body instanceof Readable;
+    let attempt = 0;
 
     return withRetry(
       async () => {
@@ -42,11 +93,17 @@ export class HttpClient {
         const timeoutId = setTimeout(() => controller.abort(), timeout);
 
         try {
-          const response = await fetch(url, {
+          const binary = options?.body instanceof Uint8Array || streamed;
+          const response = await this.dispatch({
             method,
-            headers: this.buildHeaders(options?.headers),
-            body: options?.body ? JSON.stringify(options.body) : undefined,
+            url,
+            headers: this.buildHeaders({
+              ...(binary && { 'Content-Type': 'application/octet-stream' }),
+              ...options?.headers,
+            }),
+            body: this.buildBody(options?.body),
             signal: controller.signal,
+            attempt: ++attempt,
           });
 
           clearTimeout(timeoutId);
@@ -61,13 +118,16 @@ export class HttpClient {
             throw createApiError(
               response.status,
               errorMessage,
-              errorData as any
+              errorData as any,
+              parseRetryAfter(response.headers.get('retry-after'))
             );
           }
 
           // Handle different response types
           if (options?.responseType === 'arraybuffer') {
             return (await response.arrayBuffer()) as unknown as T;
+          } else if (options?.responseType === 'stream') {
+            return Readable.fromWeb(response.body as ReadableStream) as unknown as T;
           } else if (options?.responseType === 'text') {
             return (await response.text()) as unknown as T;
           } else {
@@ -87,13 +147,44 @@ export class HttpClient {
         }
       },
       {
-        retries: this.config.retries,
+        // A streamed body can only be sent once
+        retries: streamed ? 0 : this.config.retries,
         retryDelay: this.config.retryDelay,
         retryCondition: isRetryableError,
+        backoff: this.config.retryBackoff,
+        maxDelay: this.config.maxRetryDelay,
+        maxElapsedTime: this.config.maxRetryTime,
+        onRetry: this.config.onRetry,
       }
     );
   }
 
+  /**
+   * Run a request through the middleware chain and send it
+   */
+  private dispatch(request: HttpRequest): Promise<Response> {
+    const run = (index: number, current: HttpRequest): Promise<Response> => {
+      const middleware = this.middleware[index];
+      if (middleware) {
+        return middleware(current, (next) => run(index + 1, next));
+      }
+
+      const streamed = current.body !== undefined
+        && typeof current.body !== 'string'
+        && !(current.body instanceof Uint8Array);
+
+      return fetch(current.url, {
+        method: current.method,
+        headers: current.headers,
+        body: current.body,
+        signal: current.signal,
+        ...(streamed && { duplex: 'half' as const }),
+      });
+    };
+
+    return run(0, request);
+  }
+
   /**
    * Build full URL with query parameters
    */
@@ -111,6 +202,22 @@ export class HttpClient {
     return url.toString();
   }
 
+  /**
+   * Serialize request body
+   *
+   * Binary bodies (Buffer/Uint8Array) and Readable streams are sent as-is,
+   * everything else as JSON.
+   */
+  private buildBody(body: unknown): Uint8Array | AsyncIterable<Uint8Array> | string | undefined {
+    if (!body) {
+      return undefined;
+    }
+    if (body instanceof Uint8Array || body instanceof Readable) {
+      return body;
+    }
+    return JSON.stringify(body);
+  }
+
   /**
    * Build request headers
    */
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createIgnoreMatcher } from './ignore';
+
+describe('createIgnoreMatcher', () => {
+  it('matches unanchored patterns at any depth', () => {
+    const ignores = createIgnoreMatcher(['*.log']);
+
+    expect(ignores('debug.log')).toBe(true);
+    expect(ignores('logs/app/debug.log')).toBe(true);
+    expect(ignores('debug.txt')).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to the root', () => {
+    const ignores = createIgnoreMatcher(['/build', 'docs/*.md']);
+
+    expect(ignores('build/index.js')).toBe(true);
+    expect(ignores('src/build/index.js')).toBe(false);
+    expect(ignores('docs/intro.md')).toBe(true);
+    expect(ignores('src/docs/intro.md')).toBe(false);
+    expect(ignores('docs/guides/intro.md')).toBe(false);
+  });
+
+  it('supports ** for any number of directories', () => {
+    const ignores = createIgnoreMatcher(['**/fixtures/**/*.json', 'out/**']);
+
+    expect(ignores('fixtures/a.json')).toBe(true);
+    expect(ignores('test/fixtures/deep/nested/a.json')).toBe(true);
+    expect(ignores('test/fixtures/a.ts')).toBe(false);
+    expect(ignores('out/a/b/c.txt')).toBe(true);
+  });
+
+  it('re-includes files with negation, last match wins', () => {
+    const ignores = createIgnoreMatcher(['*.log', '!keep.log']);
+
+    expect(ignores('debug.log')).toBe(true);
+    expect(ignores('keep.log')).toBe(false);
+    expect(createIgnoreMatcher(['!keep.log', '*.log'])('keep.log')).toBe(true);
+  });
+
+  it('does not re-include files inside an ignored directory', () => {
+    const ignores = createIgnoreMatcher(['node_modules/', '!node_modules/keep.js']);
+
+    expect(ignores('node_modules/keep.js')).toBe(true);
+  });
+
+  it('applies directory-only patterns to directories and their contents', () => {
+    const ignores = createIgnoreMatcher(['dist/']);
+
+    expect(ignores('dist', true)).toBe(true);
+    expect(ignores('dist', false)).toBe(false);
+    expect(ignores('dist/index.js')).toBe(true);
+    expect(ignores('packages/a/dist/index.js')).toBe(true);
+  });
+
+  it('supports ? and character classes', () => {
+    const ignores = createIgnoreMatcher(['file?.txt', '*.[oa]', '[!x]y.md']);
+
+    expect(ignores('file1.txt')).toBe(true);
+    expect(ignores('file10.txt')).toBe(false);
+    expect(ignores('lib.a')).toBe(true);
+    expect(ignores('lib.so')).toBe(false);
+    expect(ignores('ay.md')).toBe(true);
+    expect(ignores('xy.md')).toBe(false);
+  });
+
+  it('skips comments and blank lines and accepts multi-line input', () => {
+    const ignores = createIgnoreMatcher(['# comment\n\n*.tmp\r\n\\#notes']);
+
+    expect(ignores('a.tmp')).toBe(true);
+    expect(ignores('# comment')).toBe(false);
+    expect(ignores('#notes')).toBe(true);
+  });
+});
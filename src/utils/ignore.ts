@@ -0,0 +1,153 @@
+/**
+ * .gitignore-style pattern matching
+ */
+
+/**
+ * Compiled ignore rule
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Returns true if a path (relative, "/"-separated) should be ignored
+ */
+export type IgnoreMatcher = (path: string, isDirectory?: boolean) => boolean;
+
+/**
+ * Escape a character for use in a regular expression
+ */
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Convert a glob pattern to a regular expression source
+ */
+function globToRegExpSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          // Trailing or inline "**" matches everything
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const range = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${range}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a single .gitignore line
+ */
+function compileRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negate = pattern.startsWith('!');
+  if (negate) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.replace(/\/+$/, '');
+  }
+
+  // Patterns containing a slash are relative to the root, others match at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) {
+    return null;
+  }
+
+  const source = globToRegExpSource(pattern);
+  return {
+    regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+    negate,
+    directoryOnly,
+  };
+}
+
+/**
+ * Create a matcher from .gitignore-style patterns
+ *
+ * Supports comments, negation (`!`), root anchoring (`/build`),
+ * directory-only patterns (`dist/`), `*`, `**`, `?` and character classes.
+ * A path is ignored if it or any of its parent directories is ignored.
+ *
+ * @param patterns - Patterns, one per entry (e.g. the lines of a .gitignore file)
+ * @returns Matcher function
+ *
+ * @example
+ * ```typescript
+ * const ignores = createIgnoreMatcher(['node_modules/', '*.log', '!keep.log']);
+ * ignores('node_modules/react/index.js'); // true
+ * ignores('debug.log'); // true
+ * ignores('keep.log'); // false
+ * ```
+ */
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns
+    .flatMap((pattern) => pattern.split(/\r?\n/))
+    .map(compileRule)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+  const test = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  return (path: string, isDirectory: boolean = false): boolean => {
+    const segments = path.replace(/^\/+|\/+$/g, '').split('/');
+
+    // Files inside an ignored directory can't be re-included
+    for (let i = 1; i < segments.length; i++) {
+      if (test(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+
+    return test(segments.join('/'), isDirectory);
+  };
+}
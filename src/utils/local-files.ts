@@ -0,0 +1,88 @@
+/**
+ * Local filesystem helpers for directory sync
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import type { IgnoreMatcher } from './ignore';
+
+/**
+ * File found while walking a local directory
+ */
+export interface LocalFileEntry {
+  /** Path relative to the walked root, "/"-separated */
+  path: string;
+  size: number;
+  modifiedAt: Date;
+  mode: number;
+}
+
+/**
+ * Recursively list files under a directory
+ *
+ * Ignored directories are not descended into. Symlinks are skipped.
+ *
+ * @param root - Directory to walk
+ * @param ignores - Matcher for paths to skip
+ * @returns Files, sorted by path
+ */
+export async function walkLocalDirectory(root: string, ignores: IgnoreMatcher): Promise<LocalFileEntry[]> {
+  const files: LocalFileEntry[] = [];
+
+  const walk = async (relativeDir: string) => {
+    const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!ignores(relativePath, true)) {
+          await walk(relativePath);
+        }
+      } else if (entry.isFile() && !ignores(relativePath)) {
+        const stat = await fs.stat(path.join(root, relativePath));
+        files.push({
+          path: relativePath,
+          size: stat.size,
+          modifiedAt: stat.mtime,
+          mode: stat.mode,
+        });
+      }
+    }
+  };
+
+  await walk('');
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Compute the SHA-256 checksum of a local file
+ *
+ * @param filePath - Absolute or relative file path
+ * @returns Hex-encoded checksum
+ */
+export async function hashLocalFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Read a local .gitignore file
+ *
+ * @param filePath - Path to the ignore file
+ * @returns File lines, or an empty array if the file does not exist
+ */
+export async function readLocalIgnoreFile(filePath: string): Promise<string[]> {
+  try {
+    return (await fs.readFile(filePath, 'utf8')).split(/\r?\n/);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
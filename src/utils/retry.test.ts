@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { computeBackoff, withRetry } from './retry';
+import { ApiError } from '../errors';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('computeBackoff', () => {
+  it('doubles the delay for exponential backoff', () => {
+    expect([0, 1, 2, 3].map((attempt) => computeBackoff('exponential', attempt, 100))).toEqual([
+      100, 200, 400, 800,
+    ]);
+  });
+
+  it('caps the delay at maxDelay', () => {
+    expect(computeBackoff('exponential', 10, 100, 5000)).toBe(5000);
+  });
+
+  it('picks a random delay up to the exponential delay for full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(computeBackoff('full-jitter', 2, 100)).toBe(200);
+    expect(computeBackoff('full-jitter', 10, 100, 1000)).toBe(1000);
+  });
+
+  it('picks a delay between the base and three times the previous delay for decorrelated jitter', () => {
+    const random = vi.spyOn(Math, 'random');
+
+    random.mockReturnValue(0);
+    expect(computeBackoff('decorrelated-jitter', 3, 100, Infinity, 400)).toBe(100);
+
+    random.mockReturnValue(1);
+    expect(computeBackoff('decorrelated-jitter', 3, 100, Infinity, 400)).toBe(1200);
+    expect(computeBackoff('decorrelated-jitter', 3, 100, 500, 400)).toBe(500);
+  });
+});
+
+describe('withRetry', () => {
+  const serverError = (retryAfter?: number) => new ApiError('unavailable', 503, undefined, retryAfter);
+
+  it('retries until the function succeeds and reports each retry', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const promise = withRetry(fn, { retries: 3, retryDelay: 100, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delay])).toEqual([
+      [1, 100],
+      [2, 200],
+    ]);
+  });
+
+  it('throws the last error once retries are exhausted', async () => {
+    vi.useFakeTimers();
+    const error = serverError();
+    const fn = vi.fn().mockRejectedValue(error);
+
+    const promise = withRetry(fn, { retries: 2, retryDelay: 10 });
+    const assertion = expect(promise).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors rejected by retryCondition', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('bad request'));
+
+    await expect(withRetry(fn, { retries: 3, retryDelay: 10, retryCondition: () => false }))
+      .rejects.toThrow('bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least the server-provided retryAfter', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValueOnce(serverError(1000)).mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const promise = withRetry(fn, { retries: 1, retryDelay: 20, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('ok');
+    expect(onRetry.mock.calls[0][0].delay).toBe(1000);
+  });
+
+  it('gives up when retryAfter exceeds maxDelay', async () => {
+    const error = serverError(86400000);
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(fn, { retries: 3, retryDelay: 10, maxDelay: 30000 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops before a retry would exceed maxElapsedTime', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValue(serverError());
+
+    const promise = withRetry(fn, { retries: 10, retryDelay: 100, maxElapsedTime: 500 });
+    const assertion = expect(promise).rejects.toBeInstanceOf(ApiError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    // Delays 100 + 200 fit in 500ms; the next (400) would not
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
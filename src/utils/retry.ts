@@ -1,23 +1,80 @@
 /**
- * Retry utility with exponential backoff
+ * Retry utility with configurable backoff
  */
 
-import type { RetryOptions } from '../types';
+import type { BackoffStrategy, RetryOptions } from '../types';
 
 /**
  * Sleep for a specified number of milliseconds
+ *
+ * If an abort signal is given, the returned promise rejects with the
+ * signal's reason as soon as it is aborted.
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
- * Execute a function with retry logic and exponential backoff
+ * Compute the delay before a retry
+ *
+ * @param strategy - Backoff strategy
+ * @param attempt - Zero-based index of the failed attempt
+ * @param baseDelay - Initial delay in milliseconds
+ * @param maxDelay - Upper bound in milliseconds
+ * @param previousDelay - Delay used before the previous retry (decorrelated jitter only)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(
+  strategy: BackoffStrategy,
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number = Infinity,
+  previousDelay: number = baseDelay
+): number {
+  let delay: number;
+
+  switch (strategy) {
+    case 'full-jitter':
+      delay = Math.random() * baseDelay * Math.pow(2, attempt);
+      break;
+    case 'decorrelated-jitter':
+      delay = baseDelay + Math.random() * (Math.max(previousDelay * 3, baseDelay) - baseDelay);
+      break;
+    default:
+      delay = baseDelay * Math.pow(2, attempt);
+  }
+
+  return Math.round(Math.min(delay, maxDelay));
+}
+
+/**
+ * Execute a function with retry logic and backoff
+ *
+ * If the error carries a `retryAfter` value in milliseconds (such as an
+ * `ApiError` built from a `Retry-After` header), the delay is at least that
+ * long. A `retryAfter` above `maxDelay` is not waited out: the error is
+ * thrown instead.
  *
  * @param fn - Function to execute
  * @param options - Retry options
  * @returns Result of the function
- * @throws Last error if all retries fail
+ * @throws Last error if all retries fail or the time budget is exhausted
  *
  * @example
  * ```typescript
@@ -26,6 +83,8 @@ export function sleep(ms: number): Promise<void> {
  *   {
  *     retries: 3,
  *     retryDelay: 1000,
+ *     backoff: 'full-jitter',
+ *     maxDelay: 10000,
  *     retryCondition: (error) => error.statusCode >= 500
  *   }
  * );
@@ -35,6 +94,8 @@ export async function withRetry<T>(
   fn: () => Promise<T>,
   options: RetryOptions
 ): Promise<T> {
+  const startedAt = Date.now();
+  let previousDelay = options.retryDelay;
   let lastError: any;
 
   for (let attempt = 0; attempt <= options.retries; attempt++) {
@@ -53,8 +114,30 @@ export async function withRetry<T>(
         throw error;
       }
 
-      // Calculate delay with exponential backoff
-      const delay = options.retryDelay * Math.pow(2, attempt);
+      let delay = computeBackoff(
+        options.backoff || 'exponential',
+        attempt,
+        options.retryDelay,
+        options.maxDelay,
+        previousDelay
+      );
+      previousDelay = delay;
+
+      // Honor a server-provided wait time, but don't block for longer than maxDelay
+      const retryAfter = (error as { retryAfter?: unknown })?.retryAfter;
+      if (typeof retryAfter === 'number' && retryAfter > delay) {
+        if (options.maxDelay !== undefined && retryAfter > options.maxDelay) {
+          break;
+        }
+        delay = retryAfter;
+      }
+
+      // Give up if the retry would exceed the time budget
+      if (options.maxElapsedTime && Date.now() - startedAt + delay > options.maxElapsedTime) {
+        break;
+      }
+
+      options.onRetry?.({ attempt: attempt + 1, delay, error });
 
       // Wait before retrying
       await sleep(delay);
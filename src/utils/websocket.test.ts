@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, type WebSocket as ServerSocket, type ServerOptions } from 'ws';
+import { WebSocketConnection } from './websocket';
+import { AuthenticationError } from '../errors';
+
+let server: WebSocketServer | null = null;
+
+afterEach(async () => {
+  const current = server;
+  server = null;
+  if (current) {
+    current.clients.forEach((client) => client.terminate());
+    await new Promise((resolve) => current.close(resolve));
+  }
+});
+
+async function startServer(options?: ServerOptions): Promise<string> {
+  const wss = new WebSocketServer({ port: 0, ...options });
+  server = wss;
+  await new Promise((resolve) => wss.once('listening', resolve));
+  return `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+}
+
+function nextConnection(): Promise<ServerSocket> {
+  return new Promise((resolve) => server!.once('connection', resolve));
+}
+
+function waitFor<T = void>(register: (done: (value: T) => void) => void): Promise<T> {
+  return new Promise((resolve) => register(resolve));
+}
+
+describe('WebSocketConnection', () => {
+  it('exchanges JSON messages', async () => {
+    const url = await startServer();
+    server!.on('connection', (socket) => {
+      socket.on('message', (raw) => socket.send(raw.toString()));
+    });
+
+    const received = waitFor<unknown>((done) => {
+      const connection = new WebSocketConnection<unknown, { ping: number }>(url, {}, {
+        onOpen: () => connection.send({ ping: 1 }),
+        onMessage: (message) => {
+          done(message);
+          connection.close();
+        },
+      });
+    });
+
+    await expect(received).resolves.toEqual({ ping: 1 });
+  });
+
+  it('reconnects after an abnormal close', async () => {
+    const url = await startServer();
+    const onOpen = vi.fn();
+    const onClose = vi.fn();
+
+    const first = nextConnection();
+    const connection = new WebSocketConnection(url, {}, { onMessage: () => {}, onOpen, onClose }, {
+      reconnectDelay: 10,
+    });
+    (await first).terminate();
+    await nextConnection();
+    await vi.waitFor(() => expect(onOpen).toHaveBeenCalledTimes(2));
+
+    expect(onClose).not.toHaveBeenCalled();
+    connection.close();
+  });
+
+  it('does not reconnect after a normal close', async () => {
+    const url = await startServer();
+    const onOpen = vi.fn();
+
+    const first = nextConnection();
+    const closed = waitFor<number>((done) => {
+      new WebSocketConnection(url, {}, { onMessage: () => {}, onOpen, onClose: done }, {
+        reconnectDelay: 10,
+      });
+    });
+    (await first).close(1000);
+
+    await expect(closed).resolves.toBe(1000);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(onOpen).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls onClose once when closed by the client', async () => {
+    const url = await startServer();
+    const onClose = vi.fn();
+
+    const opened = waitFor((done) => {
+      const connection = new WebSocketConnection(url, {}, {
+        onMessage: () => {},
+        onOpen: () => {
+          connection.close();
+          connection.close();
+          done();
+        },
+        onClose,
+      });
+    });
+    await opened;
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith(1000, '');
+  });
+
+  it('stops without reconnecting when the handshake is rejected with 401', async () => {
+    const verifyClient = vi.fn((_info: unknown, callback: (result: boolean, code?: number) => void) =>
+      callback(false, 401)
+    );
+    const url = await startServer({ verifyClient });
+    const onError = vi.fn();
+
+    const closed = waitFor<number>((done) => {
+      new WebSocketConnection(url, {}, { onMessage: () => {}, onError, onClose: done }, {
+        reconnectDelay: 10,
+      });
+    });
+
+    await expect(closed).resolves.toBe(1006);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(verifyClient).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(AuthenticationError);
+  });
+
+  it('keeps retrying when the handshake fails with a server error', async () => {
+    let attempts = 0;
+    const url = await startServer({
+      verifyClient: (_info, callback) => callback(++attempts > 1, 503),
+    });
+    const onError = vi.fn();
+
+    const opened = waitFor((done) => {
+      const connection = new WebSocketConnection(url, {}, {
+        onMessage: () => {},
+        onError,
+        onOpen: () => {
+          connection.close();
+          done();
+        },
+      }, { reconnectDelay: 10 });
+    });
+    await opened;
+
+    expect(attempts).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * WebSocket client with authentication and automatic reconnect
+ */
+
+import WebSocket from 'ws';
+import type { VibeBoxConfig, WebSocketConnectOptions } from '../types';
+import type { HttpClient } from './http-client';
+import { VibeBoxError, createApiError, isRetryableError } from '../errors';
+
+/**
+ * Event handlers for a WebSocket connection
+ */
+export interface WebSocketHandlers<T> {
+  /** Called for every JSON message received from the server */
+  onMessage: (message: T) => void;
+
+  /** Called each time the socket (re)opens */
+  onOpen?: () => void;
+
+  /** Called once the connection is closed for good (no more reconnects) */
+  onClose?: (code: number, reason: string) => void;
+
+  /** Called on socket errors, including failed reconnect attempts */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Default reconnect behaviour
+ */
+const DEFAULT_CONNECT_OPTIONS: Required<Omit<WebSocketConnectOptions, 'params'>> = {
+  reconnect: true,
+  maxReconnectAttempts: 10,
+  reconnectDelay: 500,
+  maxReconnectDelay: 30000,
+};
+
+/**
+ * Close code used by the server when a stream ends normally
+ */
+const NORMAL_CLOSURE = 1000;
+
+/**
+ * Close code reported when the connection failed without a close frame
+ */
+const ABNORMAL_CLOSURE = 1006;
+
+/**
+ * A single logical WebSocket connection
+ *
+ * Wraps a `ws` socket and transparently re-establishes it with exponential
+ * backoff when it drops unexpectedly. Messages are JSON encoded both ways.
+ * A handshake rejected with a non-retryable status (e.g. 401 or 404) closes
+ * the connection for good.
+ */
+export class WebSocketConnection<TIncoming = unknown, TOutgoing = unknown> {
+  private socket: WebSocket | null = null;
+  private attempt = 0;
+  private closed = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private readonly options: Required<Omit<WebSocketConnectOptions, 'params'>>;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string>,
+    private readonly handlers: WebSocketHandlers<TIncoming>,
+    options?: WebSocketConnectOptions
+  ) {
+    this.options = { ...DEFAULT_CONNECT_OPTIONS, ...options };
+    this.open();
+  }
+
+  /**
+   * Whether the underlying socket is currently open
+   */
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send a JSON message to the server
+   *
+   * @throws VibeBoxError if the socket is not open
+   */
+  send(message: TOutgoing): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new VibeBoxError('WebSocket is not open');
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(code: number = NORMAL_CLOSURE, reason: string = ''): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      // Swallow errors emitted while tearing down a half-open socket
+      this.socket.on('error', () => {});
+      this.socket.close(code, reason);
+      this.socket = null;
+    }
+
+    this.handlers.onClose?.(code, reason);
+  }
+
+  /**
+   * Open (or re-open) the underlying socket
+   */
+  private open(): void {
+    const socket = new WebSocket(this.url, { headers: this.headers });
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.attempt = 0;
+      this.handlers.onOpen?.();
+    });
+
+    socket.on('message', (raw) => {
+      let message: TIncoming;
+      try {
+        message = JSON.parse(raw.toString()) as TIncoming;
+      } catch {
+        this.handlers.onError?.(new VibeBoxError('Received malformed WebSocket message'));
+        return;
+      }
+      this.handlers.onMessage(message);
+    });
+
+    socket.on('error', (error) => {
+      this.handlers.onError?.(error);
+    });
+
+    // The server refused the upgrade with a plain HTTP response
+    socket.on('unexpected-response', (_request, response) => {
+      const statusCode = response.statusCode || 0;
+      const reason = `Unexpected server response: ${statusCode}`;
+
+      socket.removeAllListeners();
+      socket.on('error', () => {});
+      socket.terminate();
+      this.socket = null;
+
+      const error = createApiError(statusCode, reason);
+      this.handlers.onError?.(error);
+
+      // Auth failures, missing endpoints and the like won't fix themselves
+      if (!isRetryableError(error) || !this.options.reconnect) {
+        this.closed = true;
+        this.handlers.onClose?.(ABNORMAL_CLOSURE, reason);
+        return;
+      }
+
+      this.scheduleReconnect(ABNORMAL_CLOSURE, reason);
+    });
+
+    socket.on('close', (code, reason) => {
+      if (this.closed) {
+        return;
+      }
+      this.socket = null;
+
+      // Normal closure means the server finished the stream
+      if (code === NORMAL_CLOSURE || !this.options.reconnect) {
+        this.closed = true;
+        this.handlers.onClose?.(code, reason.toString());
+        return;
+      }
+
+      this.scheduleReconnect(code, reason.toString());
+    });
+  }
+
+  /**
+   * Schedule a reconnect attempt with exponential backoff
+   */
+  private scheduleReconnect(code: number, reason: string): void {
+    if (this.attempt >= this.options.maxReconnectAttempts) {
+      this.closed = true;
+      this.handlers.onError?.(
+        new VibeBoxError(`WebSocket reconnect failed after ${this.attempt} attempts`)
+      );
+      this.handlers.onClose?.(code, reason);
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.reconnectDelay * Math.pow(2, this.attempt),
+      this.options.maxReconnectDelay
+    );
+    this.attempt++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) {
+        this.open();
+      }
+    }, delay);
+  }
+}
+
+/**
+ * WebSocket client for streaming API endpoints
+ *
+ * Shares authentication and base URL handling with {@link HttpClient}, and
+ * applies the handshake hooks registered on it (`vb.useWebSocket()`).
+ */
+export class WebSocketClient {
+  constructor(
+    private readonly config: Required<VibeBoxConfig>,
+    private readonly http?: HttpClient
+  ) {}
+
+  /**
+   * Open a WebSocket connection to an API endpoint
+   *
+   * @param path - API endpoint path
+   * @param handlers - Connection event handlers
+   * @param options - Connection options
+   * @returns Connection handle
+   */
+  connect<TIncoming = unknown, TOutgoing = unknown>(
+    path: string,
+    handlers: WebSocketHandlers<TIncoming>,
+    options?: WebSocketConnectOptions
+  ): WebSocketConnection<TIncoming, TOutgoing> {
+    const handshake = { url: this.buildUrl(path, options?.params), headers: this.buildHeaders() };
+    const { url, headers } = this.http ? this.http.prepareHandshake(handshake) : handshake;
+
+    return new WebSocketConnection<TIncoming, TOutgoing>(url, headers, handlers, options);
+  }
+
+  /**
+   * Build WebSocket URL (http -> ws, https -> wss) with query parameters
+   */
+  private buildUrl(path: string, params?: Record<string, string | number | boolean>): string {
+    const baseUrl = this.config.baseUrl.replace(/\/$/, '');
+    const fullPath = path.startsWith('/') ? path : `/${path}`;
+    const url = new URL(`${baseUrl}${fullPath}`);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        url.searchParams.append(key, String(value));
+      });
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Build handshake headers
+   */
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.config.apiKey}`,
+      'User-Agent': 'vibebox-sdk/0.1.0',
+      ...this.config.headers,
+    };
+  }
+}